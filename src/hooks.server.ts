@@ -1,7 +1,13 @@
 import { PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY } from '$env/static/public'
 import { createServerClient } from '@supabase/ssr'
-import { redirect, type Handle } from '@sveltejs/kit'
+import { redirect, type Handle, type ServerInit } from '@sveltejs/kit'
 import { sequence } from '@sveltejs/kit/hooks';
+import { analysisWorker } from '$lib/server/services/analysisWorker';
+
+// Start the background analysis worker and pick up jobs left over from a previous run
+export const init: ServerInit = async () => {
+  await analysisWorker.start()
+}
 
 const supabaseHandle: Handle = async ({ event, resolve }) => {
   const supabase = createServerClient(PUBLIC_SUPABASE_URL, PUBLIC_SUPABASE_ANON_KEY, {
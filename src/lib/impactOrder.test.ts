@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { sortImpacts } from './impactOrder';
+
+const impacts = [
+	{ id: 'a', calculated_impact_score: '0.20', likelihood: '0.30', time_horizon: 'long' },
+	{ id: 'b', calculated_impact_score: '-0.50', likelihood: '0.90', time_horizon: 'short' },
+	{ id: 'c', calculated_impact_score: '0.80', likelihood: null, time_horizon: null },
+	{ id: 'd', calculated_impact_score: '0.10', likelihood: '0.60', time_horizon: 'short' }
+];
+
+const ids = (sorted: { id: string }[]) => sorted.map((impact) => impact.id);
+
+describe('sortImpacts', () => {
+	it('keeps the analysis order by default', () => {
+		expect(ids(sortImpacts(impacts, ''))).toEqual(['a', 'b', 'c', 'd']);
+	});
+
+	it('sorts by score, highest first', () => {
+		expect(ids(sortImpacts(impacts, 'score'))).toEqual(['c', 'a', 'd', 'b']);
+	});
+
+	it('sorts by likelihood, impacts without an estimate last', () => {
+		expect(ids(sortImpacts(impacts, 'likelihood'))).toEqual(['b', 'd', 'a', 'c']);
+	});
+
+	it('sorts by time horizon, then by likelihood', () => {
+		expect(ids(sortImpacts(impacts, 'horizon'))).toEqual(['b', 'd', 'a', 'c']);
+	});
+
+	it('does not modify the given impacts', () => {
+		sortImpacts(impacts, 'score');
+		expect(ids(impacts)).toEqual(['a', 'b', 'c', 'd']);
+	});
+});
@@ -0,0 +1,47 @@
+/**
+ * Orders the downstream impacts of a category are shown in, by their score or by the time horizon
+ * and likelihood the evaluation estimated (rows as returned by Supabase, e.g. `time_horizon`).
+ */
+
+export type ImpactOrder = '' | 'score' | 'likelihood' | 'horizon';
+
+export const IMPACT_ORDER_LABELS: Record<ImpactOrder, string> = {
+	'': 'Analysis order',
+	score: 'Highest score first',
+	likelihood: 'Most likely first',
+	horizon: 'Soonest first'
+};
+
+interface SortableImpact {
+	calculated_impact_score?: string | number | null;
+	likelihood?: string | number | null;
+	time_horizon?: string | null;
+}
+
+const HORIZON_RANKS: Record<string, number> = { short: 0, medium: 1, long: 2 };
+
+// Impacts without an estimate go last
+function likelihoodOf(impact: SortableImpact): number {
+	return impact.likelihood === null || impact.likelihood === undefined ? -1 : Number(impact.likelihood);
+}
+
+function horizonRankOf(impact: SortableImpact): number {
+	return HORIZON_RANKS[impact.time_horizon ?? ''] ?? Object.keys(HORIZON_RANKS).length;
+}
+
+/**
+ * Returns the impacts in the given order; the analysis order is kept for ties and for the default order.
+ */
+export function sortImpacts<T extends SortableImpact>(impacts: T[], order: ImpactOrder): T[] {
+	if (!order) {
+		return impacts;
+	}
+
+	const compare: Record<Exclude<ImpactOrder, ''>, (a: T, b: T) => number> = {
+		score: (a, b) => Number(b.calculated_impact_score ?? 0) - Number(a.calculated_impact_score ?? 0),
+		likelihood: (a, b) => likelihoodOf(b) - likelihoodOf(a),
+		horizon: (a, b) => horizonRankOf(a) - horizonRankOf(b) || likelihoodOf(b) - likelihoodOf(a)
+	};
+	// Array.prototype.sort is stable, so equal impacts keep their order
+	return [...impacts].sort(compare[order]);
+}
@@ -0,0 +1,92 @@
+/**
+ * The dimensions downstream impacts are mapped onto (stored as `statement_metrics.metric_name`):
+ * the 17 Sustainable Development Goals and the social foundation and ecological ceiling of Doughnut Economics.
+ */
+
+export type MetricGroup = 'sdg' | 'social_foundation' | 'ecological_ceiling';
+
+export interface MetricDefinition {
+	name: string;
+	label: string;
+	group: MetricGroup;
+}
+
+const SDGS = [
+	'No poverty',
+	'Zero hunger',
+	'Good health and well-being',
+	'Quality education',
+	'Gender equality',
+	'Clean water and sanitation',
+	'Affordable and clean energy',
+	'Decent work and economic growth',
+	'Industry, innovation and infrastructure',
+	'Reduced inequalities',
+	'Sustainable cities and communities',
+	'Responsible consumption and production',
+	'Climate action',
+	'Life below water',
+	'Life on land',
+	'Peace, justice and strong institutions',
+	'Partnerships for the goals'
+];
+
+const SOCIAL_FOUNDATION = {
+	food: 'Food',
+	health: 'Health',
+	education: 'Education',
+	income_work: 'Income and work',
+	peace_justice: 'Peace and justice',
+	political_voice: 'Political voice',
+	social_equity: 'Social equity',
+	gender_equality: 'Gender equality',
+	housing: 'Housing',
+	networks: 'Networks',
+	energy: 'Energy',
+	water: 'Water'
+};
+
+const ECOLOGICAL_CEILING = {
+	climate_change: 'Climate change',
+	ocean_acidification: 'Ocean acidification',
+	chemical_pollution: 'Chemical pollution',
+	nitrogen_phosphorus_loading: 'Nitrogen and phosphorus loading',
+	freshwater_withdrawals: 'Freshwater withdrawals',
+	land_conversion: 'Land conversion',
+	biodiversity_loss: 'Biodiversity loss',
+	air_pollution: 'Air pollution',
+	ozone_layer_depletion: 'Ozone layer depletion'
+};
+
+export const METRICS: MetricDefinition[] = [
+	...SDGS.map((label, index) => ({ name: `sdg_${index + 1}`, label: `SDG ${index + 1}: ${label}`, group: 'sdg' as const })),
+	...Object.entries(SOCIAL_FOUNDATION).map(([key, label]) => ({
+		name: `social_${key}`,
+		label,
+		group: 'social_foundation' as const
+	})),
+	...Object.entries(ECOLOGICAL_CEILING).map(([key, label]) => ({
+		name: `ecological_${key}`,
+		label,
+		group: 'ecological_ceiling' as const
+	}))
+];
+
+export const METRIC_GROUP_LABELS: Record<MetricGroup, string> = {
+	sdg: 'Sustainable Development Goals',
+	social_foundation: 'Social foundation',
+	ecological_ceiling: 'Ecological ceiling'
+};
+
+const metricsByName = new Map(METRICS.map((metric) => [metric.name, metric]));
+
+export function getMetric(name: string): MetricDefinition | undefined {
+	return metricsByName.get(name);
+}
+
+/**
+ * Human-readable name of a metric (metrics that aren't known are shown as stored).
+ */
+export function getMetricLabel(name: string): string {
+	return metricsByName.get(name)?.label ?? name;
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { computeRecommendation, describeRecommendation } from './recommendation';
+
+describe('computeRecommendation', () => {
+	it('recommends proceeding when the positive total is at least 10 times the negative total', () => {
+		const recommendation = computeRecommendation({ Energy: 0.8, Jobs: 0.3, Water: -0.1 });
+
+		expect(recommendation).toEqual({
+			proceed: true,
+			totalPositive: 1.1,
+			totalNegative: -0.1,
+			threshold: 10,
+			margin: 0.1
+		});
+	});
+
+	it('recommends not proceeding when the positive total falls short', () => {
+		const recommendation = computeRecommendation({ Energy: 0.9, Water: -0.2 });
+
+		expect(recommendation.proceed).toBe(false);
+		expect(recommendation.margin).toBe(-1.1);
+	});
+
+	it('recommends proceeding when there are no negative impacts', () => {
+		expect(computeRecommendation({ Energy: 0.2, Water: 0 }).proceed).toBe(true);
+	});
+
+	it('recommends not proceeding when no category was scored', () => {
+		const recommendation = computeRecommendation({});
+
+		expect(recommendation).toMatchObject({ proceed: false, insufficientData: true, totalPositive: 0, totalNegative: 0 });
+		expect(describeRecommendation(recommendation)).toContain('Recommendation: do not proceed');
+	});
+
+	it('applies the threshold and category weights', () => {
+		const scores = { Energy: 0.5, Water: -0.2 };
+
+		expect(computeRecommendation(scores, { threshold: 2 }).proceed).toBe(true);
+		expect(computeRecommendation(scores, { threshold: 2, weights: { Water: 3 } })).toMatchObject({
+			proceed: false,
+			totalNegative: -0.6,
+			margin: -0.7
+		});
+	});
+});
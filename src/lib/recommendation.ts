@@ -0,0 +1,77 @@
+/**
+ * The recommendation rule of an analysis: negative impacts are only acceptable if the total positive
+ * score is at least `threshold` times the absolute value of the total negative score.
+ * Computed from the category scores so the summary doesn't have to do the arithmetic.
+ */
+
+export const DEFAULT_RECOMMENDATION_THRESHOLD = 10;
+
+export interface Recommendation {
+	proceed: boolean;
+	// Weighted sums of the positive and negative category scores (totalNegative is <= 0)
+	totalPositive: number;
+	totalNegative: number;
+	threshold: number;
+	// How far the positive total is above (or, if negative, below) the required threshold × |total negative|
+	margin: number;
+	// Set if categories are missing scores (or none were scored), then the analysis doesn't recommend proceeding
+	insufficientData?: boolean;
+}
+
+export interface RecommendationOptions {
+	threshold?: number;
+	// Weight per category (default 1), e.g. the number of impacts of the category
+	weights?: { [category: string]: number };
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+export function computeRecommendation(
+	scores: { [category: string]: number },
+	options: RecommendationOptions = {}
+): Recommendation {
+	const threshold = options.threshold ?? DEFAULT_RECOMMENDATION_THRESHOLD;
+	let totalPositive = 0;
+	let totalNegative = 0;
+
+	for (const [category, score] of Object.entries(scores)) {
+		const weightedScore = score * (options.weights?.[category] ?? 1);
+		if (weightedScore > 0) {
+			totalPositive += weightedScore;
+		} else {
+			totalNegative += weightedScore;
+		}
+	}
+
+	// Compare the rounded totals, so the verdict agrees with the numbers that are shown
+	totalPositive = round(totalPositive);
+	totalNegative = round(totalNegative);
+	const margin = round(totalPositive - threshold * Math.abs(totalNegative));
+
+	// Without any scores there is nothing that outweighs the (unknown) negative impacts
+	if (Object.keys(scores).length === 0) {
+		return { proceed: false, totalPositive, totalNegative, threshold, margin, insufficientData: true };
+	}
+
+	return {
+		proceed: margin >= 0,
+		totalPositive,
+		totalNegative,
+		threshold,
+		margin
+	};
+}
+
+/**
+ * States the recommendation as a fact, e.g. for the summary prompt.
+ */
+export function describeRecommendation(recommendation: Recommendation): string {
+	const { proceed, totalPositive, totalNegative, threshold, margin, insufficientData } = recommendation;
+	if (insufficientData) {
+		return 'Not all categories could be scored, so there is no reliable total. Recommendation: do not proceed until the missing categories are evaluated.';
+	}
+	const comparison = `The total positive score (${totalPositive}) is ${margin >= 0 ? 'at least' : 'less than'} ${threshold} times the absolute total negative score (${Math.abs(totalNegative)}), a margin of ${margin}.`;
+	return `${comparison} Recommendation: ${proceed ? 'proceed' : 'do not proceed with the proposal as-is'}.`;
+}
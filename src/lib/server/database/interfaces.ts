@@ -1,4 +1,4 @@
-import type { Idea, NewIdea, IdeaDocument, NewIdeaDocument, Category, NewCategory, DownstreamImpact, NewDownstreamImpact, StatementMetric, NewStatementMetric, Vote, NewVote, User, NewUser, TokenUsage, NewTokenUsage, UserBalance, NewUserBalance, BalanceTransaction, NewBalanceTransaction } from './schema';
+import type { Idea, NewIdea, IdeaDocument, NewIdeaDocument, DocumentChunk, NewDocumentChunk, PrimaryStatement, NewPrimaryStatement, Category, NewCategory, DownstreamImpact, NewDownstreamImpact, StatementMetric, NewStatementMetric, Evidence, NewEvidence, Stakeholder, NewStakeholder, Vote, NewVote, User, NewUser, TokenUsage, NewTokenUsage, UserBalance, NewUserBalance, BalanceTransaction, NewBalanceTransaction, AnalysisCheckpoint, NewAnalysisCheckpoint, AnalysisCheckpointWrite, NewAnalysisCheckpointWrite, AnalysisJob, NewAnalysisJob, AnalysisJobStatus, PromptVersion, NewPromptVersion, AnalysisTranslation, NewAnalysisTranslation, AnalysisLanguage } from './schema';
 
 /**
  * We're using a database interface so that in the future we could easily 
@@ -21,10 +21,20 @@ export interface IIdeaRepository extends IBaseRepository<Idea, NewIdea> {
 	unpublish(id: string, userId: string): Promise<Idea>;
 }
 
+// Primary statement repository interface
+export interface IPrimaryStatementRepository extends IBaseRepository<PrimaryStatement, NewPrimaryStatement> {
+ 	// Pass an analysis ID to only get the statements extracted by that analysis run
+ 	getByIdeaId(ideaId: string, analysisId?: string): Promise<PrimaryStatement[]>;
+ 	createBatch(statements: NewPrimaryStatement[]): Promise<PrimaryStatement[]>;
+ 	deleteByAnalysisId(analysisId: string): Promise<void>;
+}
+
 // Category repository interface
 export interface ICategoryRepository extends IBaseRepository<Category, NewCategory> {
- 	getByIdeaId(ideaId: string): Promise<Category[]>;
- 	getWithDownstreamImpacts(ideaId: string): Promise<(Category & { downstreamImpacts: DownstreamImpact[] })[]>;
+ 	// Pass an analysis ID to only get the result set of that analysis run
+ 	getByIdeaId(ideaId: string, analysisId?: string): Promise<Category[]>;
+ 	getWithDownstreamImpacts(ideaId: string, analysisId?: string): Promise<(Category & { downstreamImpacts: DownstreamImpact[] })[]>;
+ 	deleteByAnalysisId(analysisId: string): Promise<void>;
 }
 
 // Downstream impact repository interface
@@ -34,10 +44,24 @@ export interface IDownstreamImpactRepository extends IBaseRepository<DownstreamI
  	getWithVotes(categoryId: string): Promise<(DownstreamImpact & { votes: Vote[] })[]>;
  	createBatchWithMetrics(impactsWithMetrics: Array<{
     impact: NewDownstreamImpact;
-    metrics: NewStatementMetric[];
+    metrics: Omit<NewStatementMetric, 'downstreamImpactId'>[];
   }>): Promise<(DownstreamImpact & { metrics: StatementMetric[] })[]>;
 }
 
+// Evidence repository interface
+export interface IEvidenceRepository extends IBaseRepository<Evidence, NewEvidence> {
+ 	getByCategoryId(categoryId: string): Promise<(Evidence & { downstreamImpactIds: string[] })[]>;
+ 	createBatchWithImpacts(evidenceWithImpacts: Array<{
+    evidence: NewEvidence;
+    downstreamImpactIds: string[];
+  }>): Promise<(Evidence & { downstreamImpactIds: string[] })[]>;
+}
+
+// Stakeholder repository interface
+export interface IStakeholderRepository extends IBaseRepository<Stakeholder, NewStakeholder> {
+ 	getByDownstreamImpactId(downstreamImpactId: string): Promise<Stakeholder[]>;
+ 	createBatch(stakeholders: NewStakeholder[]): Promise<Stakeholder[]>;
+}
 
 // Vote repository interface - extends base but overrides delete method
 export interface IVoteRepository extends Omit<IBaseRepository<Vote, NewVote>, 'delete'> {
@@ -54,16 +78,32 @@ export interface IDocumentRepository extends IBaseRepository<IdeaDocument, NewId
 	markAsProcessed(id: string): Promise<IdeaDocument>;
 }
 
+// Document chunk repository interface
+export interface IDocumentChunkRepository extends IBaseRepository<DocumentChunk, NewDocumentChunk> {
+	createBatch(chunks: NewDocumentChunk[]): Promise<DocumentChunk[]>;
+	deleteByDocumentId(documentId: string): Promise<void>;
+	// The chunks of the idea's processed documents, with the name of the document they're from
+	getByIdeaId(ideaId: string): Promise<(DocumentChunk & { filename: string })[]>;
+}
+
 // Unit of Work interface for transactions
 export interface IUnitOfWork {
  	ideas: IIdeaRepository;
+ 	primaryStatements: IPrimaryStatementRepository;
  	categories: ICategoryRepository;
  	downstreamImpacts: IDownstreamImpactRepository;
+ 	evidence: IEvidenceRepository;
+ 	stakeholders: IStakeholderRepository;
  	votes: IVoteRepository;
  	documents: IDocumentRepository;
+ 	documentChunks: IDocumentChunkRepository;
  	tokenUsage: ITokenUsageRepository;
  	userBalances: IUserBalanceRepository;
  	balanceTransactions: IBalanceTransactionRepository;
+ 	analysisCheckpoints: IAnalysisCheckpointRepository;
+ 	analysisJobs: IAnalysisJobRepository;
+ 	promptVersions: IPromptVersionRepository;
+ 	analysisTranslations: IAnalysisTranslationRepository;
 
  	beginTransaction(): Promise<void>;
  	commit(): Promise<void>;
@@ -105,5 +145,42 @@ export interface IBalanceTransactionRepository extends IBaseRepository<BalanceTr
 		getByUserIdAndDateRange(userId: string, startDate: Date, endDate: Date): Promise<BalanceTransaction[]>;
 }
 
+// Analysis checkpoint repository interface (backs the LangGraph checkpointer)
+export interface IAnalysisCheckpointRepository extends IBaseRepository<AnalysisCheckpoint, NewAnalysisCheckpoint> {
+	getByCheckpointId(analysisId: string, checkpointNs: string, checkpointId: string): Promise<AnalysisCheckpoint | null>;
+	getLatest(analysisId: string, checkpointNs: string): Promise<AnalysisCheckpoint | null>;
+	list(analysisId: string | undefined, options?: { checkpointNs?: string; before?: string; limit?: number }): Promise<AnalysisCheckpoint[]>;
+	upsertWrites(writes: NewAnalysisCheckpointWrite[]): Promise<void>;
+	getWrites(analysisId: string, checkpointNs: string, checkpointId: string): Promise<AnalysisCheckpointWrite[]>;
+	deleteByAnalysisId(analysisId: string): Promise<void>;
+}
+
+// Analysis job repository interface
+export interface IAnalysisJobRepository extends IBaseRepository<AnalysisJob, NewAnalysisJob> {
+	getByIdeaId(ideaId: string): Promise<AnalysisJob[]>;
+	getByStatus(statuses: AnalysisJobStatus[]): Promise<AnalysisJob[]>;
+	markRunning(id: string): Promise<AnalysisJob | null>;
+	// Both return null if the job wasn't running (or queued, for markFailed) anymore, e.g. because it was cancelled
+	markSucceeded(id: string): Promise<AnalysisJob | null>;
+	markFailed(id: string, errorMessage: string): Promise<AnalysisJob | null>;
+	requeue(id: string): Promise<AnalysisJob>;
+	// Marks running jobs as alive (their updatedAt), see requeueStale, and returns the jobs with their current status
+	heartbeat(ids: string[]): Promise<AnalysisJob[]>;
+	// Requeues a running job whose last heartbeat is before staleBefore, null if it isn't stale (anymore)
+	requeueStale(id: string, staleBefore: Date): Promise<AnalysisJob | null>;
+}
+
+// Prompt version repository interface
+export interface IPromptVersionRepository extends IBaseRepository<PromptVersion, NewPromptVersion> {
+	getByNameAndVersion(name: string, version: string): Promise<PromptVersion | null>;
+	// Names and versions of all stored prompts, without their templates
+	listVersions(): Promise<{ name: string; version: string }[]>;
+}
+
+// Analysis translation repository interface
+export interface IAnalysisTranslationRepository extends IBaseRepository<AnalysisTranslation, NewAnalysisTranslation> {
+	getByAnalysisId(analysisId: string, language: AnalysisLanguage): Promise<AnalysisTranslation | null>;
+}
+
 // Add new types for user balances and transactions
 export type { UserBalance, NewUserBalance, BalanceTransaction, NewBalanceTransaction } from './schema';
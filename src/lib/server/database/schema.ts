@@ -1,8 +1,16 @@
-import { pgTable, uuid, text, timestamp, boolean, integer, numeric, pgEnum, unique, check } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, boolean, integer, numeric, jsonb, pgEnum, unique, check, primaryKey, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { relations, sql } from 'drizzle-orm';
+import type { Recommendation } from '$lib/recommendation';
+import type { AnalysisIssue, AnalysisTranslationContent, CategoryCritique } from '../llm/types';
 
 // Enums
 export const voteTypeEnum = pgEnum('vote_type', ['1', '-1']);
+// Outcome of a finished run: complete, partial (parts of the analysis are missing) or failed (no results), see llm/issues
+export const analysisResultStatuses = ['complete', 'partial', 'failed'] as const;
+// When a downstream impact would materialize: short (within ~2 years), medium (2-10 years) or long term (beyond)
+export const impactTimeHorizons = ['short', 'medium', 'long'] as const;
+// Languages proposals are analyzed in (ISO 639-1 codes), see llm/language
+export const analysisLanguages = ['en', 'de', 'es', 'fr'] as const;
 
 // Tables
 export const ideas = pgTable('ideas', {
@@ -10,11 +18,22 @@ export const ideas = pgTable('ideas', {
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   text: text('text').notNull(),
+  // Language of the proposal, detected when the idea is created; analyses are written in it unless another one is selected
+  language: text('language', { enum: analysisLanguages }).notNull().default('en'),
   summary: text('summary'),
+  // Verdict of the 10x rule, computed from the category scores of the current analysis
+  recommendation: jsonb('recommendation').$type<Recommendation>(),
+  // Outcome of the current analysis and the problems it ran into, so missing parts can be explained
+  analysisStatus: text('analysis_status', { enum: analysisResultStatuses }),
+  analysisIssues: jsonb('analysis_issues').$type<AnalysisIssue[]>().notNull().default([]),
   published: boolean('published').default(false),
+  // The analysis whose results (categories, impacts, summary) are currently shown for this idea
+  currentAnalysisId: uuid('current_analysis_id').references((): AnyPgColumn => analysisJobs.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
-});
+}, (t) => ([
+  check('idea_language_check', sql`${t.language} IN ('en', 'de', 'es', 'fr')`)
+]));
 
 export const ideaDocuments = pgTable('idea_documents', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -27,12 +46,43 @@ export const ideaDocuments = pgTable('idea_documents', {
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
 });
 
+// Passages of the text extracted from a document, searched for the parts relevant to the analysis
+export const documentChunks = pgTable('document_chunks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  documentId: uuid('document_id').notNull().references(() => ideaDocuments.id, { onDelete: 'cascade' }),
+  position: integer('position').notNull(),
+  heading: text('heading'),
+  content: text('content').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+});
+
+// Statements extracted from the idea's proposal, the roots of its downstream impacts
+export const primaryStatements = pgTable('primary_statements', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ideaId: uuid('idea_id').notNull().references(() => ideas.id, { onDelete: 'cascade' }),
+  // The analysis run that extracted this statement
+  analysisId: uuid('analysis_id').references((): AnyPgColumn => analysisJobs.id, { onDelete: 'set null' }),
+  statementText: text('statement_text').notNull(),
+  position: integer('position').notNull().default(0),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+});
+
 export const categories = pgTable('categories', {
   id: uuid('id').primaryKey().defaultRandom(),
   ideaId: uuid('idea_id').notNull().references(() => ideas.id, { onDelete: 'cascade' }),
+  // The analysis run that produced this category; each re-run of an idea's analysis is a new result set
+  analysisId: uuid('analysis_id').references((): AnyPgColumn => analysisJobs.id, { onDelete: 'set null' }),
   name: text('name').notNull(),
   researchFindings: text('research_findings'),
-  evaluatedScore: numeric('evaluated_score', { precision: 3, scale: 2 }).default('0.50').notNull(),
+  // Counter-arguments and overlooked risks of the red-team review, shown to challenge the score
+  critique: jsonb('critique').$type<CategoryCritique>(),
+  // Null if the category couldn't be evaluated
+  evaluatedScore: numeric('evaluated_score', { precision: 3, scale: 2 }).default('0.50'),
+  // Spread of the independent evaluations the score is the mean of, and the interval single evaluations fall into
+  scoreSamples: integer('score_samples'),
+  scoreStandardDeviation: numeric('score_standard_deviation', { precision: 3, scale: 2 }),
+  scoreLower: numeric('score_lower', { precision: 3, scale: 2 }),
+  scoreUpper: numeric('score_upper', { precision: 3, scale: 2 }),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
 });
@@ -40,11 +90,25 @@ export const categories = pgTable('categories', {
 export const downstreamImpacts = pgTable('downstream_impacts', {
   id: uuid('id').primaryKey().defaultRandom(),
   categoryId: uuid('category_id').notNull().references(() => categories.id, { onDelete: 'cascade' }),
+  // The extracted statement this impact was generated from (null if it could not be traced back)
+  primaryStatementId: uuid('primary_statement_id').references(() => primaryStatements.id, { onDelete: 'set null' }),
   impactText: text('impact_text').notNull(),
+  // Order of the impact: 1 for direct consequences of a statement, 2 for consequences of those, ...
+  depth: integer('depth').notNull().default(1),
+  // Near-duplicate impacts that were merged into this one
+  mergedImpacts: jsonb('merged_impacts').$type<string[]>().notNull().default([]),
   calculatedImpactScore: numeric('calculated_impact_score', { precision: 3, scale: 2 }).default('0.50').notNull(),
+  // Why the evaluation gave the impact its score
+  scoreRationale: text('score_rationale'),
+  // When the impact would materialize and how likely it is (0-1), estimated by the evaluation
+  timeHorizon: text('time_horizon', { enum: impactTimeHorizons }),
+  likelihood: numeric('likelihood', { precision: 3, scale: 2 }),
   createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
-});
+}, (t) => ([
+  check('downstream_impact_time_horizon_check', sql`${t.timeHorizon} IN ('short', 'medium', 'long')`),
+  check('downstream_impact_likelihood_bounds', sql`${t.likelihood} >= 0 AND ${t.likelihood} <= 1`)
+]));
 
 export const statementMetrics = pgTable('statement_metrics', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -56,6 +120,49 @@ export const statementMetrics = pgTable('statement_metrics', {
   check('metric_bounds', sql`${t.metricValue} >= -1 AND ${t.metricValue} <= 1`)
 ]));
 
+// Evidence: discrete claims of a category's research findings, with their source
+export const evidenceSourceTypes = ['document', 'url', 'dataset'] as const;
+
+export const evidence = pgTable('evidence', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  categoryId: uuid('category_id').notNull().references(() => categories.id, { onDelete: 'cascade' }),
+  claim: text('claim').notNull(),
+  sourceType: text('source_type', { enum: evidenceSourceTypes }).notNull(),
+  sourceTitle: text('source_title').notNull(),
+  sourceUrl: text('source_url'),
+  excerpt: text('excerpt').notNull(),
+  confidence: numeric('confidence', { precision: 3, scale: 2 }).notNull(),
+  // Footnote number within the category
+  position: integer('position').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (t) => ([
+  check('evidence_source_type_check', sql`${t.sourceType} IN ('document', 'url', 'dataset')`),
+  check('evidence_confidence_bounds', sql`${t.confidence} >= 0 AND ${t.confidence} <= 1`)
+]));
+
+// The downstream impacts a piece of evidence supports
+export const evidenceImpacts = pgTable('evidence_impacts', {
+  evidenceId: uuid('evidence_id').notNull().references(() => evidence.id, { onDelete: 'cascade' }),
+  downstreamImpactId: uuid('downstream_impact_id').notNull().references(() => downstreamImpacts.id, { onDelete: 'cascade' })
+}, (t) => ([
+  primaryKey({ columns: [t.evidenceId, t.downstreamImpactId] })
+]));
+
+// Stakeholders: the groups a downstream impact affects, and how
+export const stakeholderEffects = ['positive', 'negative', 'mixed'] as const;
+
+export const stakeholders = pgTable('stakeholders', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  downstreamImpactId: uuid('downstream_impact_id').notNull().references(() => downstreamImpacts.id, { onDelete: 'cascade' }),
+  // Name of the group, e.g. "Rural commuters"; the same group has the same name across the impacts of an analysis
+  name: text('name').notNull(),
+  effect: text('effect', { enum: stakeholderEffects }).notNull(),
+  description: text('description'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (t) => ([
+  check('stakeholder_effect_check', sql`${t.effect} IN ('positive', 'negative', 'mixed')`)
+]));
+
 export const votes = pgTable('votes', {
   id: uuid('id').primaryKey().defaultRandom(),
   downstreamImpactId: uuid('downstream_impact_id').notNull().references(() => downstreamImpacts.id, { onDelete: 'cascade' }),
@@ -82,14 +189,31 @@ export const ideasRelations = relations(ideas, ({ one, many }) => ({
     references: [users.id],
   }),
   documents: many(ideaDocuments),
+  primaryStatements: many(primaryStatements),
   categories: many(categories),
 }));
 
-export const ideaDocumentsRelations = relations(ideaDocuments, ({ one }) => ({
+export const ideaDocumentsRelations = relations(ideaDocuments, ({ one, many }) => ({
   idea: one(ideas, {
     fields: [ideaDocuments.ideaId],
     references: [ideas.id],
   }),
+  chunks: many(documentChunks),
+}));
+
+export const documentChunksRelations = relations(documentChunks, ({ one }) => ({
+  document: one(ideaDocuments, {
+    fields: [documentChunks.documentId],
+    references: [ideaDocuments.id],
+  }),
+}));
+
+export const primaryStatementsRelations = relations(primaryStatements, ({ one, many }) => ({
+  idea: one(ideas, {
+    fields: [primaryStatements.ideaId],
+    references: [ideas.id],
+  }),
+  downstreamImpacts: many(downstreamImpacts),
 }));
 
 export const categoriesRelations = relations(categories, ({ one, many }) => ({
@@ -98,6 +222,7 @@ export const categoriesRelations = relations(categories, ({ one, many }) => ({
     references: [ideas.id],
   }),
   downstreamImpacts: many(downstreamImpacts),
+  evidence: many(evidence),
 }));
 
 export const downstreamImpactsRelations = relations(downstreamImpacts, ({ one, many }) => ({
@@ -105,10 +230,41 @@ export const downstreamImpactsRelations = relations(downstreamImpacts, ({ one, m
     fields: [downstreamImpacts.categoryId],
     references: [categories.id],
   }),
+  primaryStatement: one(primaryStatements, {
+    fields: [downstreamImpacts.primaryStatementId],
+    references: [primaryStatements.id],
+  }),
   metrics: many(statementMetrics),
   votes: many(votes),
+  evidence: many(evidenceImpacts),
+  stakeholders: many(stakeholders),
 }));
 
+export const evidenceRelations = relations(evidence, ({ one, many }) => ({
+  category: one(categories, {
+    fields: [evidence.categoryId],
+    references: [categories.id],
+  }),
+  impacts: many(evidenceImpacts),
+}));
+
+export const evidenceImpactsRelations = relations(evidenceImpacts, ({ one }) => ({
+  evidence: one(evidence, {
+    fields: [evidenceImpacts.evidenceId],
+    references: [evidence.id],
+  }),
+  downstreamImpact: one(downstreamImpacts, {
+    fields: [evidenceImpacts.downstreamImpactId],
+    references: [downstreamImpacts.id],
+  }),
+}));
+
+export const stakeholdersRelations = relations(stakeholders, ({ one }) => ({
+  downstreamImpact: one(downstreamImpacts, {
+    fields: [stakeholders.downstreamImpactId],
+    references: [downstreamImpacts.id],
+  }),
+}));
 
 export const statementMetricsRelations = relations(statementMetrics, ({ one }) => ({
   downstreamImpact: one(downstreamImpacts, {
@@ -138,12 +294,24 @@ export type Idea = typeof ideas.$inferSelect;
 export type NewIdea = typeof ideas.$inferInsert;
 export type IdeaDocument = typeof ideaDocuments.$inferSelect;
 export type NewIdeaDocument = typeof ideaDocuments.$inferInsert;
+export type DocumentChunk = typeof documentChunks.$inferSelect;
+export type NewDocumentChunk = typeof documentChunks.$inferInsert;
+export type PrimaryStatement = typeof primaryStatements.$inferSelect;
+export type NewPrimaryStatement = typeof primaryStatements.$inferInsert;
 export type Category = typeof categories.$inferSelect;
 export type NewCategory = typeof categories.$inferInsert;
+export type ImpactTimeHorizon = typeof impactTimeHorizons[number];
 export type DownstreamImpact = typeof downstreamImpacts.$inferSelect;
 export type NewDownstreamImpact = typeof downstreamImpacts.$inferInsert;
 export type StatementMetric = typeof statementMetrics.$inferSelect;
 export type NewStatementMetric = typeof statementMetrics.$inferInsert;
+export type EvidenceSourceType = typeof evidenceSourceTypes[number];
+export type Evidence = typeof evidence.$inferSelect;
+export type NewEvidence = typeof evidence.$inferInsert;
+export type EvidenceImpact = typeof evidenceImpacts.$inferSelect;
+export type StakeholderEffect = typeof stakeholderEffects[number];
+export type Stakeholder = typeof stakeholders.$inferSelect;
+export type NewStakeholder = typeof stakeholders.$inferInsert;
 export type Vote = typeof votes.$inferSelect;
 export type NewVote = typeof votes.$inferInsert;
 export type User = typeof users.$inferSelect;
@@ -191,3 +359,103 @@ export type UserBalance = typeof userBalances.$inferSelect;
 export type NewUserBalance = typeof userBalances.$inferInsert;
 export type BalanceTransaction = typeof balanceTransactions.$inferSelect;
 export type NewBalanceTransaction = typeof balanceTransactions.$inferInsert;
+
+// Analysis checkpoints (LangGraph checkpointer storage, one thread per analysis run)
+export const analysisCheckpoints = pgTable('analysis_checkpoints', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisId: uuid('analysis_id').notNull(),
+  checkpointNs: text('checkpoint_ns').notNull().default(''),
+  checkpointId: text('checkpoint_id').notNull(),
+  parentCheckpointId: text('parent_checkpoint_id'),
+  serializationType: text('serialization_type').notNull(),
+  checkpoint: text('checkpoint').notNull(),
+  metadata: text('metadata').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (t) => ([
+  unique().on(t.analysisId, t.checkpointNs, t.checkpointId)
+]));
+
+export const analysisCheckpointWrites = pgTable('analysis_checkpoint_writes', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisId: uuid('analysis_id').notNull(),
+  checkpointNs: text('checkpoint_ns').notNull().default(''),
+  checkpointId: text('checkpoint_id').notNull(),
+  taskId: text('task_id').notNull(),
+  idx: integer('idx').notNull(),
+  channel: text('channel').notNull(),
+  serializationType: text('serialization_type').notNull(),
+  value: text('value').notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (t) => ([
+  unique().on(t.analysisId, t.checkpointNs, t.checkpointId, t.taskId, t.idx)
+]));
+
+export type AnalysisCheckpoint = typeof analysisCheckpoints.$inferSelect;
+export type NewAnalysisCheckpoint = typeof analysisCheckpoints.$inferInsert;
+export type AnalysisCheckpointWrite = typeof analysisCheckpointWrites.$inferSelect;
+export type NewAnalysisCheckpointWrite = typeof analysisCheckpointWrites.$inferInsert;
+
+// Analysis jobs (queued analyses processed by the in-process worker; the job ID is also the analysis ID)
+export const analysisJobStatuses = ['queued', 'running', 'succeeded', 'failed'] as const;
+// How thorough (and expensive) a run is, see llm/profiles
+export const analysisProfileNames = ['quick', 'standard', 'deep'] as const;
+
+export const analysisJobs = pgTable('analysis_jobs', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  ideaId: uuid('idea_id').references(() => ideas.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  status: text('status', { enum: analysisJobStatuses }).notNull().default('queued'),
+  proposal: jsonb('proposal').notNull(),
+  profile: text('profile', { enum: analysisProfileNames }).notNull().default('standard'),
+  // The version of every prompt the run used (prompt name -> version), see llm/prompts
+  promptVersions: jsonb('prompt_versions').$type<{ [name: string]: string }>(),
+  // Language the results are written in, the idea's language unless another one was selected
+  language: text('language', { enum: analysisLanguages }),
+  errorMessage: text('error_message'),
+  attempts: integer('attempts').notNull().default(0),
+  startedAt: timestamp('started_at', { withTimezone: true }),
+  completedAt: timestamp('completed_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow()
+}, (t) => ([
+  check('analysis_job_status_check', sql`${t.status} IN ('queued', 'running', 'succeeded', 'failed')`),
+  check('analysis_job_profile_check', sql`${t.profile} IN ('quick', 'standard', 'deep')`),
+  check('analysis_job_language_check', sql`${t.language} IN ('en', 'de', 'es', 'fr')`)
+]));
+
+export type AnalysisJobStatus = typeof analysisJobStatuses[number];
+export type AnalysisProfileName = typeof analysisProfileNames[number];
+export type AnalysisResultStatus = typeof analysisResultStatuses[number];
+export type AnalysisLanguage = typeof analysisLanguages[number];
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type NewAnalysisJob = typeof analysisJobs.$inferInsert;
+
+// Translations of the results of an analysis into other languages, created on demand and kept
+export const analysisTranslations = pgTable('analysis_translations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  analysisId: uuid('analysis_id').notNull().references(() => analysisJobs.id, { onDelete: 'cascade' }),
+  language: text('language', { enum: analysisLanguages }).notNull(),
+  content: jsonb('content').$type<AnalysisTranslationContent>().notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (t) => ([
+  unique().on(t.analysisId, t.language),
+  check('analysis_translation_language_check', sql`${t.language} IN ('en', 'de', 'es', 'fr')`)
+]));
+
+export type AnalysisTranslation = typeof analysisTranslations.$inferSelect;
+export type NewAnalysisTranslation = typeof analysisTranslations.$inferInsert;
+
+// Prompt versions stored in the database, in addition to the built-in and file-based ones (see llm/prompts)
+export const promptVersions = pgTable('prompt_versions', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: text('name').notNull(),
+  version: text('version').notNull(),
+  template: text('template').notNull(),
+  description: text('description'),
+  createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow()
+}, (t) => ([
+  unique().on(t.name, t.version)
+]));
+
+export type PromptVersion = typeof promptVersions.$inferSelect;
+export type NewPromptVersion = typeof promptVersions.$inferInsert;
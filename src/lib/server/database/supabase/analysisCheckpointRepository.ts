@@ -0,0 +1,145 @@
+import type { IAnalysisCheckpointRepository } from '../interfaces';
+import type { AnalysisCheckpoint, NewAnalysisCheckpoint, AnalysisCheckpointWrite, NewAnalysisCheckpointWrite } from '../schema';
+import { db } from '../connection';
+import { analysisCheckpoints, analysisCheckpointWrites } from '../schema';
+import { eq, and, lt, desc, asc, sql } from 'drizzle-orm';
+
+export class AnalysisCheckpointRepository implements IAnalysisCheckpointRepository {
+	async create(data: NewAnalysisCheckpoint): Promise<AnalysisCheckpoint> {
+		const result = await db.insert(analysisCheckpoints).values({
+			analysisId: data.analysisId,
+			checkpointNs: data.checkpointNs,
+			checkpointId: data.checkpointId,
+			parentCheckpointId: data.parentCheckpointId,
+			serializationType: data.serializationType,
+			checkpoint: data.checkpoint,
+			metadata: data.metadata
+		}).onConflictDoUpdate({
+			target: [analysisCheckpoints.analysisId, analysisCheckpoints.checkpointNs, analysisCheckpoints.checkpointId],
+			set: {
+				serializationType: data.serializationType,
+				checkpoint: data.checkpoint,
+				metadata: data.metadata
+			}
+		}).returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to create analysis checkpoint: No data returned');
+		}
+		return result[0];
+	}
+
+	async getById(id: string): Promise<AnalysisCheckpoint | null> {
+		const result = await db.select().from(analysisCheckpoints).where(eq(analysisCheckpoints.id, id)).limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async update(id: string, data: Partial<NewAnalysisCheckpoint>): Promise<AnalysisCheckpoint> {
+		const result = await db
+			.update(analysisCheckpoints)
+			.set(data)
+			.where(eq(analysisCheckpoints.id, id))
+			.returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to update analysis checkpoint: Checkpoint not found');
+		}
+		return result[0];
+	}
+
+	async delete(id: string): Promise<void> {
+		await db.delete(analysisCheckpoints).where(eq(analysisCheckpoints.id, id));
+	}
+
+	async getByCheckpointId(analysisId: string, checkpointNs: string, checkpointId: string): Promise<AnalysisCheckpoint | null> {
+		const result = await db
+			.select()
+			.from(analysisCheckpoints)
+			.where(and(
+				eq(analysisCheckpoints.analysisId, analysisId),
+				eq(analysisCheckpoints.checkpointNs, checkpointNs),
+				eq(analysisCheckpoints.checkpointId, checkpointId)
+			))
+			.limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async getLatest(analysisId: string, checkpointNs: string): Promise<AnalysisCheckpoint | null> {
+		// Checkpoint IDs are time-ordered (uuid6), so the highest ID is the most recent checkpoint
+		const result = await db
+			.select()
+			.from(analysisCheckpoints)
+			.where(and(
+				eq(analysisCheckpoints.analysisId, analysisId),
+				eq(analysisCheckpoints.checkpointNs, checkpointNs)
+			))
+			.orderBy(desc(analysisCheckpoints.checkpointId))
+			.limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async list(
+		analysisId: string | undefined,
+		options: { checkpointNs?: string; before?: string; limit?: number } = {}
+	): Promise<AnalysisCheckpoint[]> {
+		const conditions = [];
+		if (analysisId) {
+			conditions.push(eq(analysisCheckpoints.analysisId, analysisId));
+		}
+		if (options.checkpointNs !== undefined) {
+			conditions.push(eq(analysisCheckpoints.checkpointNs, options.checkpointNs));
+		}
+		if (options.before) {
+			conditions.push(lt(analysisCheckpoints.checkpointId, options.before));
+		}
+
+		const query = db
+			.select()
+			.from(analysisCheckpoints)
+			.where(conditions.length > 0 ? and(...conditions) : sql`true`)
+			.orderBy(desc(analysisCheckpoints.checkpointId));
+
+		return options.limit !== undefined ? await query.limit(options.limit) : await query;
+	}
+
+	async upsertWrites(writes: NewAnalysisCheckpointWrite[]): Promise<void> {
+		if (writes.length === 0) {
+			return;
+		}
+
+		await db
+			.insert(analysisCheckpointWrites)
+			.values(writes)
+			.onConflictDoUpdate({
+				target: [
+					analysisCheckpointWrites.analysisId,
+					analysisCheckpointWrites.checkpointNs,
+					analysisCheckpointWrites.checkpointId,
+					analysisCheckpointWrites.taskId,
+					analysisCheckpointWrites.idx
+				],
+				set: {
+					channel: sql`excluded.channel`,
+					serializationType: sql`excluded.serialization_type`,
+					value: sql`excluded.value`
+				}
+			});
+	}
+
+	async getWrites(analysisId: string, checkpointNs: string, checkpointId: string): Promise<AnalysisCheckpointWrite[]> {
+		return await db
+			.select()
+			.from(analysisCheckpointWrites)
+			.where(and(
+				eq(analysisCheckpointWrites.analysisId, analysisId),
+				eq(analysisCheckpointWrites.checkpointNs, checkpointNs),
+				eq(analysisCheckpointWrites.checkpointId, checkpointId)
+			))
+			.orderBy(asc(analysisCheckpointWrites.taskId), asc(analysisCheckpointWrites.idx));
+	}
+
+	async deleteByAnalysisId(analysisId: string): Promise<void> {
+		await db.delete(analysisCheckpointWrites).where(eq(analysisCheckpointWrites.analysisId, analysisId));
+		await db.delete(analysisCheckpoints).where(eq(analysisCheckpoints.analysisId, analysisId));
+	}
+}
@@ -0,0 +1,151 @@
+import type { IAnalysisJobRepository } from '../interfaces';
+import type { AnalysisJob, NewAnalysisJob, AnalysisJobStatus } from '../schema';
+import { db } from '../connection';
+import { analysisJobs } from '../schema';
+import { eq, and, lt, asc, desc, inArray, sql } from 'drizzle-orm';
+
+export class AnalysisJobRepository implements IAnalysisJobRepository {
+	async create(data: NewAnalysisJob): Promise<AnalysisJob> {
+		const result = await db.insert(analysisJobs).values({
+			id: data.id,
+			ideaId: data.ideaId,
+			userId: data.userId,
+			status: data.status,
+			proposal: data.proposal,
+			profile: data.profile,
+			language: data.language
+		}).returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to create analysis job: No data returned');
+		}
+		return result[0];
+	}
+
+	async getById(id: string): Promise<AnalysisJob | null> {
+		const result = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id)).limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async update(id: string, data: Partial<NewAnalysisJob>): Promise<AnalysisJob> {
+		const updateData: Partial<NewAnalysisJob> = {
+			...data,
+			updatedAt: new Date()
+		};
+
+		const result = await db
+			.update(analysisJobs)
+			.set(updateData)
+			.where(eq(analysisJobs.id, id))
+			.returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to update analysis job: Job not found');
+		}
+		return result[0];
+	}
+
+	async delete(id: string): Promise<void> {
+		await db.delete(analysisJobs).where(eq(analysisJobs.id, id));
+	}
+
+	async getByIdeaId(ideaId: string): Promise<AnalysisJob[]> {
+		return await db
+			.select()
+			.from(analysisJobs)
+			.where(eq(analysisJobs.ideaId, ideaId))
+			.orderBy(desc(analysisJobs.createdAt));
+	}
+
+	async getByStatus(statuses: AnalysisJobStatus[]): Promise<AnalysisJob[]> {
+		return await db
+			.select()
+			.from(analysisJobs)
+			.where(inArray(analysisJobs.status, statuses))
+			.orderBy(asc(analysisJobs.createdAt));
+	}
+
+	async markRunning(id: string): Promise<AnalysisJob | null> {
+		// Only a queued job can be claimed, so the same job is never processed twice
+		const result = await db
+			.update(analysisJobs)
+			.set({
+				status: 'running',
+				attempts: sql`${analysisJobs.attempts} + 1`,
+				startedAt: new Date(),
+				updatedAt: new Date()
+			})
+			.where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, 'queued')))
+			.returning();
+
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async markSucceeded(id: string): Promise<AnalysisJob | null> {
+		// Only a running job can succeed, so a job cancelled in the meantime stays cancelled
+		const result = await db
+			.update(analysisJobs)
+			.set({
+				status: 'succeeded',
+				errorMessage: null,
+				completedAt: new Date(),
+				updatedAt: new Date()
+			})
+			.where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, 'running')))
+			.returning();
+
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async markFailed(id: string, errorMessage: string): Promise<AnalysisJob | null> {
+		// A finished job keeps its outcome (e.g. a cancelled job isn't overwritten with the error of its run)
+		const result = await db
+			.update(analysisJobs)
+			.set({
+				status: 'failed',
+				errorMessage,
+				completedAt: new Date(),
+				updatedAt: new Date()
+			})
+			.where(and(eq(analysisJobs.id, id), inArray(analysisJobs.status, ['queued', 'running'])))
+			.returning();
+
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async requeue(id: string): Promise<AnalysisJob> {
+		return await this.update(id, {
+			status: 'queued',
+			errorMessage: null,
+			completedAt: null
+		});
+	}
+
+	async heartbeat(ids: string[]): Promise<AnalysisJob[]> {
+		if (ids.length === 0) {
+			return [];
+		}
+		await db
+			.update(analysisJobs)
+			.set({ updatedAt: new Date() })
+			.where(and(inArray(analysisJobs.id, ids), eq(analysisJobs.status, 'running')));
+
+		return await db.select().from(analysisJobs).where(inArray(analysisJobs.id, ids));
+	}
+
+	async requeueStale(id: string, staleBefore: Date): Promise<AnalysisJob | null> {
+		// Only a running job without a recent heartbeat is requeued, so a job of a live worker is left alone
+		const result = await db
+			.update(analysisJobs)
+			.set({
+				status: 'queued',
+				errorMessage: null,
+				completedAt: null,
+				updatedAt: new Date()
+			})
+			.where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, 'running'), lt(analysisJobs.updatedAt, staleBefore)))
+			.returning();
+
+		return result.length > 0 ? result[0] : null;
+	}
+}
@@ -0,0 +1,51 @@
+import type { IAnalysisTranslationRepository } from '../interfaces';
+import type { AnalysisTranslation, NewAnalysisTranslation, AnalysisLanguage } from '../schema';
+import { db } from '../connection';
+import { analysisTranslations } from '../schema';
+import { eq, and } from 'drizzle-orm';
+
+export class AnalysisTranslationRepository implements IAnalysisTranslationRepository {
+	async create(data: NewAnalysisTranslation): Promise<AnalysisTranslation> {
+		const result = await db.insert(analysisTranslations).values({
+			analysisId: data.analysisId,
+			language: data.language,
+			content: data.content
+		}).returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to create analysis translation: No data returned');
+		}
+		return result[0];
+	}
+
+	async getById(id: string): Promise<AnalysisTranslation | null> {
+		const result = await db.select().from(analysisTranslations).where(eq(analysisTranslations.id, id)).limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async update(id: string, data: Partial<NewAnalysisTranslation>): Promise<AnalysisTranslation> {
+		const result = await db
+			.update(analysisTranslations)
+			.set(data)
+			.where(eq(analysisTranslations.id, id))
+			.returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to update analysis translation: Translation not found');
+		}
+		return result[0];
+	}
+
+	async delete(id: string): Promise<void> {
+		await db.delete(analysisTranslations).where(eq(analysisTranslations.id, id));
+	}
+
+	async getByAnalysisId(analysisId: string, language: AnalysisLanguage): Promise<AnalysisTranslation | null> {
+		const result = await db
+			.select()
+			.from(analysisTranslations)
+			.where(and(eq(analysisTranslations.analysisId, analysisId), eq(analysisTranslations.language, language)))
+			.limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+}
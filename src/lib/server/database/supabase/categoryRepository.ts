@@ -2,15 +2,21 @@ import type { ICategoryRepository } from '../interfaces';
 import type { Category, NewCategory, DownstreamImpact } from '../schema';
 import { db } from '../connection';
 import { categories, downstreamImpacts } from '../schema';
-import { eq, asc } from 'drizzle-orm';
+import { eq, and, asc } from 'drizzle-orm';
 
 export class CategoryRepository implements ICategoryRepository {
   async create(data: NewCategory): Promise<Category> {
     const result = await db.insert(categories).values({
       ideaId: data.ideaId,
+      analysisId: data.analysisId,
       name: data.name,
       researchFindings: data.researchFindings,
-      evaluatedScore: data.evaluatedScore
+      critique: data.critique,
+      evaluatedScore: data.evaluatedScore,
+      scoreSamples: data.scoreSamples,
+      scoreStandardDeviation: data.scoreStandardDeviation,
+      scoreLower: data.scoreLower,
+      scoreUpper: data.scoreUpper
     }).returning();
 
     if (result.length === 0) {
@@ -48,29 +54,43 @@ export class CategoryRepository implements ICategoryRepository {
     await db.delete(categories).where(eq(categories.id, id));
   }
 
-  async getByIdeaId(ideaId: string): Promise<Category[]> {
+  async getByIdeaId(ideaId: string, analysisId?: string): Promise<Category[]> {
     return await db
       .select()
       .from(categories)
-      .where(eq(categories.ideaId, ideaId))
+      .where(analysisId
+        ? and(eq(categories.ideaId, ideaId), eq(categories.analysisId, analysisId))
+        : eq(categories.ideaId, ideaId))
       .orderBy(asc(categories.createdAt));
   }
 
-  async getWithDownstreamImpacts(ideaId: string): Promise<(Category & { downstreamImpacts: DownstreamImpact[] })[]> {
+  async deleteByAnalysisId(analysisId: string): Promise<void> {
+    await db.delete(categories).where(eq(categories.analysisId, analysisId));
+  }
+
+  async getWithDownstreamImpacts(ideaId: string, analysisId?: string): Promise<(Category & { downstreamImpacts: DownstreamImpact[] })[]> {
     const result = await db
       .select({
         id: categories.id,
         ideaId: categories.ideaId,
+        analysisId: categories.analysisId,
         name: categories.name,
         researchFindings: categories.researchFindings,
+        critique: categories.critique,
         evaluatedScore: categories.evaluatedScore,
+        scoreSamples: categories.scoreSamples,
+        scoreStandardDeviation: categories.scoreStandardDeviation,
+        scoreLower: categories.scoreLower,
+        scoreUpper: categories.scoreUpper,
         createdAt: categories.createdAt,
         updatedAt: categories.updatedAt,
         downstreamImpacts: downstreamImpacts
       })
       .from(categories)
       .leftJoin(downstreamImpacts, eq(categories.id, downstreamImpacts.categoryId))
-      .where(eq(categories.ideaId, ideaId))
+      .where(analysisId
+        ? and(eq(categories.ideaId, ideaId), eq(categories.analysisId, analysisId))
+        : eq(categories.ideaId, ideaId))
       .orderBy(asc(categories.createdAt));
 
     // Group the results by category
@@ -82,9 +102,15 @@ export class CategoryRepository implements ICategoryRepository {
         categoryMap.set(categoryId, {
           id: row.id,
           ideaId: row.ideaId,
+          analysisId: row.analysisId,
           name: row.name,
           researchFindings: row.researchFindings,
+          critique: row.critique,
           evaluatedScore: row.evaluatedScore,
+          scoreSamples: row.scoreSamples,
+          scoreStandardDeviation: row.scoreStandardDeviation,
+          scoreLower: row.scoreLower,
+          scoreUpper: row.scoreUpper,
           createdAt: row.createdAt,
           updatedAt: row.updatedAt,
           downstreamImpacts: []
@@ -0,0 +1,64 @@
+import type { IDocumentChunkRepository } from '../interfaces';
+import type { DocumentChunk, NewDocumentChunk } from '../schema';
+import { db } from '../connection';
+import { documentChunks, ideaDocuments } from '../schema';
+import { eq, and, asc, getTableColumns } from 'drizzle-orm';
+
+export class DocumentChunkRepository implements IDocumentChunkRepository {
+	async create(data: NewDocumentChunk): Promise<DocumentChunk> {
+		const result = await db.insert(documentChunks).values({
+			documentId: data.documentId,
+			position: data.position,
+			heading: data.heading,
+			content: data.content
+		}).returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to create document chunk: No data returned');
+		}
+		return result[0];
+	}
+
+	async getById(id: string): Promise<DocumentChunk | null> {
+		const result = await db.select().from(documentChunks).where(eq(documentChunks.id, id)).limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async update(id: string, data: Partial<NewDocumentChunk>): Promise<DocumentChunk> {
+		const result = await db
+			.update(documentChunks)
+			.set(data)
+			.where(eq(documentChunks.id, id))
+			.returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to update document chunk: Chunk not found');
+		}
+		return result[0];
+	}
+
+	async delete(id: string): Promise<void> {
+		await db.delete(documentChunks).where(eq(documentChunks.id, id));
+	}
+
+	async createBatch(data: NewDocumentChunk[]): Promise<DocumentChunk[]> {
+		if (data.length === 0) {
+			return [];
+		}
+
+		return await db.insert(documentChunks).values(data).returning();
+	}
+
+	async deleteByDocumentId(documentId: string): Promise<void> {
+		await db.delete(documentChunks).where(eq(documentChunks.documentId, documentId));
+	}
+
+	async getByIdeaId(ideaId: string): Promise<(DocumentChunk & { filename: string })[]> {
+		return await db
+			.select({ ...getTableColumns(documentChunks), filename: ideaDocuments.filename })
+			.from(documentChunks)
+			.innerJoin(ideaDocuments, eq(documentChunks.documentId, ideaDocuments.id))
+			.where(and(eq(ideaDocuments.ideaId, ideaId), eq(ideaDocuments.processed, true)))
+			.orderBy(asc(ideaDocuments.createdAt), asc(documentChunks.position));
+	}
+}
@@ -0,0 +1,58 @@
+import type { IDocumentRepository } from '../interfaces';
+import type { IdeaDocument, NewIdeaDocument } from '../schema';
+import { db } from '../connection';
+import { ideaDocuments } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+export class DocumentRepository implements IDocumentRepository {
+	async create(data: NewIdeaDocument): Promise<IdeaDocument> {
+		const result = await db.insert(ideaDocuments).values({
+			id: data.id,
+			ideaId: data.ideaId,
+			filename: data.filename,
+			filePath: data.filePath,
+			fileType: data.fileType,
+			fileSize: data.fileSize,
+			processed: data.processed ?? false
+		}).returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to create document: No data returned');
+		}
+		return result[0];
+	}
+
+	async getById(id: string): Promise<IdeaDocument | null> {
+		const result = await db.select().from(ideaDocuments).where(eq(ideaDocuments.id, id)).limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async update(id: string, data: Partial<NewIdeaDocument>): Promise<IdeaDocument> {
+		const result = await db
+			.update(ideaDocuments)
+			.set(data)
+			.where(eq(ideaDocuments.id, id))
+			.returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to update document: Document not found');
+		}
+		return result[0];
+	}
+
+	async delete(id: string): Promise<void> {
+		await db.delete(ideaDocuments).where(eq(ideaDocuments.id, id));
+	}
+
+	async getByIdeaId(ideaId: string): Promise<IdeaDocument[]> {
+		return await db
+			.select()
+			.from(ideaDocuments)
+			.where(eq(ideaDocuments.ideaId, ideaId))
+			.orderBy(asc(ideaDocuments.createdAt));
+	}
+
+	async markAsProcessed(id: string): Promise<IdeaDocument> {
+		return await this.update(id, { processed: true });
+	}
+}
@@ -8,8 +8,14 @@ export class DownstreamImpactRepository implements IDownstreamImpactRepository {
   async create(data: NewDownstreamImpact): Promise<DownstreamImpact> {
     const result = await db.insert(downstreamImpacts).values({
       categoryId: data.categoryId,
+      primaryStatementId: data.primaryStatementId,
       impactText: data.impactText,
-      calculatedImpactScore: data.calculatedImpactScore
+      depth: data.depth,
+      mergedImpacts: data.mergedImpacts,
+      calculatedImpactScore: data.calculatedImpactScore,
+      scoreRationale: data.scoreRationale,
+      timeHorizon: data.timeHorizon,
+      likelihood: data.likelihood
     }).returning();
 
     if (result.length === 0) {
@@ -60,8 +66,14 @@ export class DownstreamImpactRepository implements IDownstreamImpactRepository {
       .select({
         id: downstreamImpacts.id,
         categoryId: downstreamImpacts.categoryId,
+        primaryStatementId: downstreamImpacts.primaryStatementId,
         impactText: downstreamImpacts.impactText,
+        depth: downstreamImpacts.depth,
+        mergedImpacts: downstreamImpacts.mergedImpacts,
         calculatedImpactScore: downstreamImpacts.calculatedImpactScore,
+        scoreRationale: downstreamImpacts.scoreRationale,
+        timeHorizon: downstreamImpacts.timeHorizon,
+        likelihood: downstreamImpacts.likelihood,
         createdAt: downstreamImpacts.createdAt,
         updatedAt: downstreamImpacts.updatedAt,
         metrics: statementMetrics
@@ -80,8 +92,14 @@ export class DownstreamImpactRepository implements IDownstreamImpactRepository {
         impactMap.set(impactId, {
           id: row.id,
           categoryId: row.categoryId,
+          primaryStatementId: row.primaryStatementId,
           impactText: row.impactText,
+          depth: row.depth,
+          mergedImpacts: row.mergedImpacts,
           calculatedImpactScore: row.calculatedImpactScore,
+          scoreRationale: row.scoreRationale,
+          timeHorizon: row.timeHorizon,
+          likelihood: row.likelihood,
           createdAt: row.createdAt,
           updatedAt: row.updatedAt,
           metrics: []
@@ -101,8 +119,14 @@ export class DownstreamImpactRepository implements IDownstreamImpactRepository {
       .select({
         id: downstreamImpacts.id,
         categoryId: downstreamImpacts.categoryId,
+        primaryStatementId: downstreamImpacts.primaryStatementId,
         impactText: downstreamImpacts.impactText,
+        depth: downstreamImpacts.depth,
+        mergedImpacts: downstreamImpacts.mergedImpacts,
         calculatedImpactScore: downstreamImpacts.calculatedImpactScore,
+        scoreRationale: downstreamImpacts.scoreRationale,
+        timeHorizon: downstreamImpacts.timeHorizon,
+        likelihood: downstreamImpacts.likelihood,
         createdAt: downstreamImpacts.createdAt,
         updatedAt: downstreamImpacts.updatedAt,
         votes: votes
@@ -121,8 +145,14 @@ export class DownstreamImpactRepository implements IDownstreamImpactRepository {
         impactMap.set(impactId, {
           id: row.id,
           categoryId: row.categoryId,
+          primaryStatementId: row.primaryStatementId,
           impactText: row.impactText,
+          depth: row.depth,
+          mergedImpacts: row.mergedImpacts,
           calculatedImpactScore: row.calculatedImpactScore,
+          scoreRationale: row.scoreRationale,
+          timeHorizon: row.timeHorizon,
+          likelihood: row.likelihood,
           createdAt: row.createdAt,
           updatedAt: row.updatedAt,
           votes: []
@@ -139,7 +169,7 @@ export class DownstreamImpactRepository implements IDownstreamImpactRepository {
 
   async createBatchWithMetrics(impactsWithMetrics: Array<{
     impact: NewDownstreamImpact;
-    metrics: NewStatementMetric[];
+    metrics: Omit<NewStatementMetric, 'downstreamImpactId'>[];
   }>): Promise<(DownstreamImpact & { metrics: StatementMetric[] })[]> {
     if (impactsWithMetrics.length === 0) {
       return [];
@@ -148,8 +178,14 @@ export class DownstreamImpactRepository implements IDownstreamImpactRepository {
     // Create all impacts first
     const impactsData = impactsWithMetrics.map(item => ({
       categoryId: item.impact.categoryId,
+      primaryStatementId: item.impact.primaryStatementId,
       impactText: item.impact.impactText,
-      calculatedImpactScore: item.impact.calculatedImpactScore
+      depth: item.impact.depth,
+      mergedImpacts: item.impact.mergedImpacts,
+      calculatedImpactScore: item.impact.calculatedImpactScore,
+      scoreRationale: item.impact.scoreRationale,
+      timeHorizon: item.impact.timeHorizon,
+      likelihood: item.impact.likelihood
     }));
 
     const insertedImpacts = await db.insert(downstreamImpacts).values(impactsData).returning();
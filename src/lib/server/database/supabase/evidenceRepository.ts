@@ -0,0 +1,108 @@
+import type { IEvidenceRepository } from '../interfaces';
+import type { Evidence, NewEvidence } from '../schema';
+import { db } from '../connection';
+import { evidence, evidenceImpacts } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+export class EvidenceRepository implements IEvidenceRepository {
+  async create(data: NewEvidence): Promise<Evidence> {
+    const result = await db.insert(evidence).values({
+      categoryId: data.categoryId,
+      claim: data.claim,
+      sourceType: data.sourceType,
+      sourceTitle: data.sourceTitle,
+      sourceUrl: data.sourceUrl,
+      excerpt: data.excerpt,
+      confidence: data.confidence,
+      position: data.position
+    }).returning();
+
+    if (result.length === 0) {
+      throw new Error('Failed to create evidence: No data returned');
+    }
+
+    return result[0];
+  }
+
+  async getById(id: string): Promise<Evidence | null> {
+    const result = await db.select().from(evidence).where(eq(evidence.id, id)).limit(1);
+    return result.length > 0 ? result[0] : null;
+  }
+
+  async update(id: string, data: Partial<NewEvidence>): Promise<Evidence> {
+    const result = await db
+      .update(evidence)
+      .set(data)
+      .where(eq(evidence.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error('Failed to update evidence: Evidence not found');
+    }
+
+    return result[0];
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.delete(evidence).where(eq(evidence.id, id));
+  }
+
+  async getByCategoryId(categoryId: string): Promise<(Evidence & { downstreamImpactIds: string[] })[]> {
+    const result = await db
+      .select({
+        evidence: evidence,
+        downstreamImpactId: evidenceImpacts.downstreamImpactId
+      })
+      .from(evidence)
+      .leftJoin(evidenceImpacts, eq(evidence.id, evidenceImpacts.evidenceId))
+      .where(eq(evidence.categoryId, categoryId))
+      .orderBy(asc(evidence.position));
+
+    // Group the results by evidence
+    const evidenceMap = new Map<string, Evidence & { downstreamImpactIds: string[] }>();
+
+    for (const row of result) {
+      if (!evidenceMap.has(row.evidence.id)) {
+        evidenceMap.set(row.evidence.id, { ...row.evidence, downstreamImpactIds: [] });
+      }
+
+      if (row.downstreamImpactId) {
+        evidenceMap.get(row.evidence.id)!.downstreamImpactIds.push(row.downstreamImpactId);
+      }
+    }
+
+    return Array.from(evidenceMap.values());
+  }
+
+  async createBatchWithImpacts(evidenceWithImpacts: Array<{
+    evidence: NewEvidence;
+    downstreamImpactIds: string[];
+  }>): Promise<(Evidence & { downstreamImpactIds: string[] })[]> {
+    if (evidenceWithImpacts.length === 0) {
+      return [];
+    }
+
+    const insertedEvidence = await db.insert(evidence).values(evidenceWithImpacts.map(item => item.evidence)).returning();
+
+    if (insertedEvidence.length === 0) {
+      throw new Error('No evidence was created');
+    }
+
+    // Link the evidence to the impacts it supports
+    const links = insertedEvidence.flatMap((item, index) =>
+      evidenceWithImpacts[index].downstreamImpactIds.map(downstreamImpactId => ({
+        evidenceId: item.id,
+        downstreamImpactId
+      }))
+    );
+
+    if (links.length > 0) {
+      await db.insert(evidenceImpacts).values(links).onConflictDoNothing();
+    }
+
+    return insertedEvidence.map((item, index) => ({
+      ...item,
+      downstreamImpactIds: evidenceWithImpacts[index].downstreamImpactIds
+    }));
+  }
+}
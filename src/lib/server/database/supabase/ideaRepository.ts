@@ -10,6 +10,7 @@ export class IdeaRepository implements IIdeaRepository {
 			userId: data.userId,
 			title: data.title,
 			text: data.text,
+			language: data.language,
 			summary: data.summary,
 			published: data.published || true // Setting this to true by default, even though the database has 'false' as defaults. false means that users can't vote on statements etc
 		}).returning();
@@ -1,30 +1,57 @@
 import { IdeaRepository } from './ideaRepository';
+import { PrimaryStatementRepository } from './primaryStatementRepository';
 import { CategoryRepository } from './categoryRepository';
 import { DownstreamImpactRepository } from './downstreamImpactRepository';
+import { EvidenceRepository } from './evidenceRepository';
+import { StakeholderRepository } from './stakeholderRepository';
 import { VoteRepository } from './voteRepository';
+import { DocumentRepository } from './documentRepository';
+import { DocumentChunkRepository } from './documentChunkRepository';
 import { TokenUsageRepository } from './tokenUsageRepository';
 import { UserBalanceRepository } from './userBalanceRepository';
 import { BalanceTransactionRepository } from './balanceTransactionRepository';
+import { AnalysisCheckpointRepository } from './analysisCheckpointRepository';
+import { AnalysisJobRepository } from './analysisJobRepository';
+import { PromptVersionRepository } from './promptVersionRepository';
+import { AnalysisTranslationRepository } from './analysisTranslationRepository';
 
 // Export repository classes
 export { IdeaRepository as DrizzleIdeaRepository } from './ideaRepository';
+export { PrimaryStatementRepository as DrizzlePrimaryStatementRepository } from './primaryStatementRepository';
 export { CategoryRepository as DrizzleCategoryRepository } from './categoryRepository';
 export { DownstreamImpactRepository as DrizzleDownstreamImpactRepository } from './downstreamImpactRepository';
+export { EvidenceRepository as DrizzleEvidenceRepository } from './evidenceRepository';
+export { StakeholderRepository as DrizzleStakeholderRepository } from './stakeholderRepository';
 export { VoteRepository as DrizzleVoteRepository } from './voteRepository';
+export { DocumentRepository as DrizzleDocumentRepository } from './documentRepository';
+export { DocumentChunkRepository as DrizzleDocumentChunkRepository } from './documentChunkRepository';
 export { TokenUsageRepository as DrizzleTokenUsageRepository } from './tokenUsageRepository';
 export { UserBalanceRepository as DrizzleUserBalanceRepository } from './userBalanceRepository';
 export { BalanceTransactionRepository as DrizzleBalanceTransactionRepository } from './balanceTransactionRepository';
+export { AnalysisCheckpointRepository as DrizzleAnalysisCheckpointRepository } from './analysisCheckpointRepository';
+export { AnalysisJobRepository as DrizzleAnalysisJobRepository } from './analysisJobRepository';
+export { PromptVersionRepository as DrizzlePromptVersionRepository } from './promptVersionRepository';
+export { AnalysisTranslationRepository as DrizzleAnalysisTranslationRepository } from './analysisTranslationRepository';
 
 // Factory function to create repositories
 export function createRepositories() {
  	return {
   		ideas: new IdeaRepository(),
+  		primaryStatements: new PrimaryStatementRepository(),
   		categories: new CategoryRepository(),
   		downstreamImpacts: new DownstreamImpactRepository(),
+  		evidence: new EvidenceRepository(),
+  		stakeholders: new StakeholderRepository(),
   		votes: new VoteRepository(),
+  		documents: new DocumentRepository(),
+  		documentChunks: new DocumentChunkRepository(),
   		tokenUsage: new TokenUsageRepository(),
   		userBalances: new UserBalanceRepository(),
   		balanceTransactions: new BalanceTransactionRepository(),
+  		analysisCheckpoints: new AnalysisCheckpointRepository(),
+  		analysisJobs: new AnalysisJobRepository(),
+  		promptVersions: new PromptVersionRepository(),
+  		analysisTranslations: new AnalysisTranslationRepository(),
   	};
 }
 
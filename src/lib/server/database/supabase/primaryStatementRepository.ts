@@ -0,0 +1,74 @@
+import type { IPrimaryStatementRepository } from '../interfaces';
+import type { PrimaryStatement, NewPrimaryStatement } from '../schema';
+import { db } from '../connection';
+import { primaryStatements } from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+
+export class PrimaryStatementRepository implements IPrimaryStatementRepository {
+  async create(data: NewPrimaryStatement): Promise<PrimaryStatement> {
+    const result = await db.insert(primaryStatements).values({
+      ideaId: data.ideaId,
+      analysisId: data.analysisId,
+      statementText: data.statementText,
+      position: data.position
+    }).returning();
+
+    if (result.length === 0) {
+      throw new Error('Failed to create primary statement: No data returned');
+    }
+
+    return result[0];
+  }
+
+  async getById(id: string): Promise<PrimaryStatement | null> {
+    const result = await db.select().from(primaryStatements).where(eq(primaryStatements.id, id)).limit(1);
+    return result.length > 0 ? result[0] : null;
+  }
+
+  async update(id: string, data: Partial<NewPrimaryStatement>): Promise<PrimaryStatement> {
+    const result = await db
+      .update(primaryStatements)
+      .set(data)
+      .where(eq(primaryStatements.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error('Failed to update primary statement: Statement not found');
+    }
+
+    return result[0];
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.delete(primaryStatements).where(eq(primaryStatements.id, id));
+  }
+
+  async getByIdeaId(ideaId: string, analysisId?: string): Promise<PrimaryStatement[]> {
+    return await db
+      .select()
+      .from(primaryStatements)
+      .where(analysisId
+        ? and(eq(primaryStatements.ideaId, ideaId), eq(primaryStatements.analysisId, analysisId))
+        : eq(primaryStatements.ideaId, ideaId))
+      .orderBy(asc(primaryStatements.position));
+  }
+
+  async createBatch(statements: NewPrimaryStatement[]): Promise<PrimaryStatement[]> {
+    if (statements.length === 0) {
+      return [];
+    }
+
+    const result = await db.insert(primaryStatements).values(statements).returning();
+
+    if (result.length === 0) {
+      throw new Error('No primary statements were created');
+    }
+
+    // Keep the order of the input
+    return result.sort((a, b) => a.position - b.position);
+  }
+
+  async deleteByAnalysisId(analysisId: string): Promise<void> {
+    await db.delete(primaryStatements).where(eq(primaryStatements.analysisId, analysisId));
+  }
+}
@@ -0,0 +1,59 @@
+import type { IPromptVersionRepository } from '../interfaces';
+import type { PromptVersion, NewPromptVersion } from '../schema';
+import { db } from '../connection';
+import { promptVersions } from '../schema';
+import { eq, and, asc } from 'drizzle-orm';
+
+export class PromptVersionRepository implements IPromptVersionRepository {
+	async create(data: NewPromptVersion): Promise<PromptVersion> {
+		const result = await db.insert(promptVersions).values({
+			name: data.name,
+			version: data.version,
+			template: data.template,
+			description: data.description
+		}).returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to create prompt version: No data returned');
+		}
+		return result[0];
+	}
+
+	async getById(id: string): Promise<PromptVersion | null> {
+		const result = await db.select().from(promptVersions).where(eq(promptVersions.id, id)).limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async update(id: string, data: Partial<NewPromptVersion>): Promise<PromptVersion> {
+		const result = await db
+			.update(promptVersions)
+			.set(data)
+			.where(eq(promptVersions.id, id))
+			.returning();
+
+		if (result.length === 0) {
+			throw new Error('Failed to update prompt version: Prompt version not found');
+		}
+		return result[0];
+	}
+
+	async delete(id: string): Promise<void> {
+		await db.delete(promptVersions).where(eq(promptVersions.id, id));
+	}
+
+	async getByNameAndVersion(name: string, version: string): Promise<PromptVersion | null> {
+		const result = await db
+			.select()
+			.from(promptVersions)
+			.where(and(eq(promptVersions.name, name), eq(promptVersions.version, version)))
+			.limit(1);
+		return result.length > 0 ? result[0] : null;
+	}
+
+	async listVersions(): Promise<{ name: string; version: string }[]> {
+		return await db
+			.select({ name: promptVersions.name, version: promptVersions.version })
+			.from(promptVersions)
+			.orderBy(asc(promptVersions.name), asc(promptVersions.version));
+	}
+}
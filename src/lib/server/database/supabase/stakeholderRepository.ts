@@ -0,0 +1,61 @@
+import type { IStakeholderRepository } from '../interfaces';
+import type { Stakeholder, NewStakeholder } from '../schema';
+import { db } from '../connection';
+import { stakeholders } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+export class StakeholderRepository implements IStakeholderRepository {
+  async create(data: NewStakeholder): Promise<Stakeholder> {
+    const result = await db.insert(stakeholders).values({
+      downstreamImpactId: data.downstreamImpactId,
+      name: data.name,
+      effect: data.effect,
+      description: data.description
+    }).returning();
+
+    if (result.length === 0) {
+      throw new Error('Failed to create stakeholder: No data returned');
+    }
+
+    return result[0];
+  }
+
+  async getById(id: string): Promise<Stakeholder | null> {
+    const result = await db.select().from(stakeholders).where(eq(stakeholders.id, id)).limit(1);
+    return result.length > 0 ? result[0] : null;
+  }
+
+  async update(id: string, data: Partial<NewStakeholder>): Promise<Stakeholder> {
+    const result = await db
+      .update(stakeholders)
+      .set(data)
+      .where(eq(stakeholders.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error('Failed to update stakeholder: Stakeholder not found');
+    }
+
+    return result[0];
+  }
+
+  async delete(id: string): Promise<void> {
+    await db.delete(stakeholders).where(eq(stakeholders.id, id));
+  }
+
+  async getByDownstreamImpactId(downstreamImpactId: string): Promise<Stakeholder[]> {
+    return await db
+      .select()
+      .from(stakeholders)
+      .where(eq(stakeholders.downstreamImpactId, downstreamImpactId))
+      .orderBy(asc(stakeholders.name));
+  }
+
+  async createBatch(data: NewStakeholder[]): Promise<Stakeholder[]> {
+    if (data.length === 0) {
+      return [];
+    }
+
+    return await db.insert(stakeholders).values(data).returning();
+  }
+}
@@ -0,0 +1,94 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { createServiceRoleSupabaseClient } from '../database/supabase/serviceRoleSupabase';
+
+/**
+ * Where uploaded documents are kept. Paths are relative, e.g. "<idea ID>/<document ID>-report.pdf".
+ */
+export interface FileStorage {
+	readonly name: string;
+	save(filePath: string, data: Uint8Array, contentType: string): Promise<void>;
+	read(filePath: string): Promise<Uint8Array>;
+	delete(filePath: string): Promise<void>;
+}
+
+/**
+ * Keeps the files in a directory of the local filesystem, for development.
+ */
+export class LocalFileStorage implements FileStorage {
+	readonly name = 'local';
+
+	constructor(private rootDir: string) {}
+
+	async save(filePath: string, data: Uint8Array): Promise<void> {
+		const fullPath = this.resolve(filePath);
+		await mkdir(path.dirname(fullPath), { recursive: true });
+		await writeFile(fullPath, data);
+	}
+
+	async read(filePath: string): Promise<Uint8Array> {
+		return await readFile(this.resolve(filePath));
+	}
+
+	async delete(filePath: string): Promise<void> {
+		await rm(this.resolve(filePath), { force: true });
+	}
+
+	// Paths come from the database, but never let one point outside of the storage directory
+	private resolve(filePath: string): string {
+		const fullPath = path.resolve(this.rootDir, filePath);
+		if (!fullPath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+			throw new Error(`Invalid document path: ${filePath}`);
+		}
+		return fullPath;
+	}
+}
+
+/**
+ * Keeps the files in a Supabase Storage bucket.
+ */
+export class SupabaseFileStorage implements FileStorage {
+	readonly name = 'supabase';
+
+	constructor(private bucket: string) {}
+
+	async save(filePath: string, data: Uint8Array, contentType: string): Promise<void> {
+		const { error } = await createServiceRoleSupabaseClient().storage.from(this.bucket).upload(filePath, data, { contentType });
+		if (error) {
+			throw new Error(`Failed to store document ${filePath}: ${error.message}`);
+		}
+	}
+
+	async read(filePath: string): Promise<Uint8Array> {
+		const { data, error } = await createServiceRoleSupabaseClient().storage.from(this.bucket).download(filePath);
+		if (error || !data) {
+			throw new Error(`Failed to read document ${filePath}: ${error?.message ?? 'No data returned'}`);
+		}
+		return new Uint8Array(await data.arrayBuffer());
+	}
+
+	async delete(filePath: string): Promise<void> {
+		const { error } = await createServiceRoleSupabaseClient().storage.from(this.bucket).remove([filePath]);
+		if (error) {
+			throw new Error(`Failed to delete document ${filePath}: ${error.message}`);
+		}
+	}
+}
+
+/**
+ * Creates the storage configured with DOCUMENT_STORAGE: "local" (the directory DOCUMENT_STORAGE_DIR,
+ * by default ./uploads) or "supabase" (the bucket DOCUMENT_STORAGE_BUCKET, by default "documents").
+ */
+export function createFileStorage(): FileStorage {
+	const storage = process.env.DOCUMENT_STORAGE || 'local';
+	switch (storage) {
+		case 'local':
+			return new LocalFileStorage(process.env.DOCUMENT_STORAGE_DIR || path.resolve('uploads'));
+		case 'supabase':
+			return new SupabaseFileStorage(process.env.DOCUMENT_STORAGE_BUCKET || 'documents');
+		default:
+			throw new Error(`Unknown document storage: ${storage}`);
+	}
+}
+
+export const fileStorage = createFileStorage();
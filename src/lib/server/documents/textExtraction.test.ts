@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { extractText, getDocumentFormat } from './textExtraction';
+
+describe('getDocumentFormat', () => {
+	it('recognizes the format by the extension first', () => {
+		expect(getDocumentFormat('report.PDF', '')).toBe('pdf');
+		expect(getDocumentFormat('notes.md', 'application/octet-stream')).toBe('markdown');
+		expect(getDocumentFormat('plan.docx', '')).toBe('docx');
+	});
+
+	it('falls back to the MIME type', () => {
+		expect(getDocumentFormat('report', 'application/pdf')).toBe('pdf');
+		expect(getDocumentFormat('readme', 'text/plain')).toBe('text');
+	});
+
+	it('rejects formats text cannot be extracted from', () => {
+		expect(getDocumentFormat('old.doc', 'application/msword')).toBeNull();
+		expect(getDocumentFormat('image.png', 'image/png')).toBeNull();
+	});
+});
+
+describe('extractText', () => {
+	it('decodes text and Markdown files with normalized line endings', async () => {
+		const data = new TextEncoder().encode('# Plan\r\n\r\nBuild cycle lanes.\r\n');
+		expect(await extractText(data, 'markdown')).toBe('# Plan\n\nBuild cycle lanes.');
+	});
+});
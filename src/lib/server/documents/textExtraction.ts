@@ -0,0 +1,52 @@
+import mammoth from 'mammoth';
+import { extractText as extractPdfText } from 'unpdf';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'markdown' | 'text';
+
+// The same limit as the upload form
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+	pdf: 'pdf',
+	docx: 'docx',
+	md: 'markdown',
+	markdown: 'markdown',
+	txt: 'text'
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+	'application/pdf': 'pdf',
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+	'text/markdown': 'markdown',
+	'text/plain': 'text'
+};
+
+/**
+ * The format of an uploaded file, by its extension (browsers often send no MIME type for Markdown)
+ * or else its MIME type. Null for formats text can't be extracted from.
+ */
+export function getDocumentFormat(filename: string, mimeType: string): DocumentFormat | null {
+	const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+	return FORMATS_BY_EXTENSION[extension] ?? FORMATS_BY_MIME_TYPE[mimeType] ?? null;
+}
+
+/**
+ * Extracts the text of a document. Paragraphs (and PDF pages) are separated by blank lines,
+ * so the text can be split into passages like a Markdown document.
+ */
+export async function extractText(data: Uint8Array, format: DocumentFormat): Promise<string> {
+	switch (format) {
+		case 'pdf': {
+			// pdf.js takes over the buffer, so it gets a copy
+			const { text } = await extractPdfText(new Uint8Array(data), { mergePages: false });
+			return text.map((page) => page.trim()).filter(Boolean).join('\n\n');
+		}
+		case 'docx': {
+			const result = await mammoth.extractRawText({ buffer: Buffer.from(data) });
+			return result.value.trim();
+		}
+		case 'markdown':
+		case 'text':
+			return new TextDecoder('utf-8').decode(data).replace(/\r\n/g, '\n').trim();
+	}
+}
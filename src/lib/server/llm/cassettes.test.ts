@@ -0,0 +1,53 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { z } from 'zod';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { StructuredOutputParser } from '@langchain/core/output_parsers';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { Cassette, CassetteMissError, useCassette } from './cassettes';
+import { callWithRetry } from './retryUtils';
+import { modelProviders } from './providers';
+
+const prompt = PromptTemplate.fromTemplate('Name the colour of the {thing}.\n{format_instructions}');
+const parser = StructuredOutputParser.fromZodSchema(z.object({ colour: z.string() }));
+const input = { thing: 'sky', format_instructions: parser.getFormatInstructions() };
+const llmOptions = { model: 'claude-3-5-haiku-latest', temperature: 0 };
+
+describe('LLM cassettes', () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await mkdtemp(path.join(tmpdir(), 'cassette-'));
+	});
+
+	afterEach(async () => {
+		useCassette(null);
+		vi.restoreAllMocks();
+		await rm(dir, { recursive: true, force: true });
+	});
+
+	it('records the responses of the model and replays them without calling it', async () => {
+		const createModel = vi
+			.spyOn(modelProviders, 'createModel')
+			.mockReturnValue(new FakeListChatModel({ responses: ['{"colour": "blue"}'] }));
+
+		useCassette(new Cassette(dir, 'record'));
+		expect(await callWithRetry(prompt, parser, input, llmOptions)).toEqual({ colour: 'blue' });
+		expect(await readdir(dir)).toHaveLength(1);
+
+		createModel.mockClear();
+		useCassette(new Cassette(dir, 'replay'));
+		expect(await callWithRetry(prompt, parser, input, llmOptions)).toEqual({ colour: 'blue' });
+		expect(createModel).not.toHaveBeenCalled();
+	});
+
+	it('fails on prompts that were not recorded', async () => {
+		const createModel = vi.spyOn(modelProviders, 'createModel');
+		useCassette(new Cassette(dir, 'replay'));
+
+		await expect(callWithRetry(prompt, parser, { ...input, thing: 'grass' }, llmOptions)).rejects.toThrow(CassetteMissError);
+		expect(createModel).not.toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,95 @@
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import type { MessageContent } from "@langchain/core/messages";
+
+/**
+ * record: LLM calls go to the models and their responses are saved.
+ * replay: LLM calls are answered from the saved responses, without network or API keys.
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * A saved LLM call: the rendered prompt and the raw response of the model (before it was parsed).
+ */
+export interface CassetteEntry {
+  model: string; // The model that answered when recording, replay doesn't depend on it
+  prompt: string;
+  response: MessageContent;
+}
+
+/**
+ * Thrown in replay mode for a prompt that wasn't recorded, instead of calling the model.
+ */
+export class CassetteMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMissError";
+  }
+}
+
+/**
+ * A directory of recorded LLM calls, one JSON file per prompt named by the hash of the prompt.
+ * Calls match on the exact prompt text, so a changed prompt or input needs to be recorded again.
+ */
+export class Cassette {
+  constructor(readonly dir: string, readonly mode: CassetteMode) {}
+
+  static key(prompt: string): string {
+    return createHash("sha256").update(prompt).digest("hex").slice(0, 16);
+  }
+
+  async replay(prompt: string): Promise<MessageContent> {
+    const file = this.file(prompt);
+    let entry: CassetteEntry;
+    try {
+      entry = JSON.parse(await readFile(file, "utf-8"));
+    } catch {
+      throw new CassetteMissError(`No recorded LLM response for this prompt (expected ${file}):\n${prompt.slice(0, 500)}`);
+    }
+    if (entry.prompt !== prompt) {
+      throw new CassetteMissError(`The LLM response recorded in ${file} is for a different prompt`);
+    }
+    return entry.response;
+  }
+
+  async record(entry: CassetteEntry): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.file(entry.prompt), JSON.stringify(entry, null, 2) + "\n");
+  }
+
+  private file(prompt: string): string {
+    return path.join(this.dir, `${Cassette.key(prompt)}.json`);
+  }
+}
+
+/**
+ * Creates the cassette of LLM_CASSETTE_MODE ("record" or "replay") in LLM_CASSETTE_DIR (by default ./cassettes),
+ * or none if no mode is set.
+ */
+export function createCassette(): Cassette | null {
+  const mode = process.env.LLM_CASSETTE_MODE;
+  if (!mode) {
+    return null;
+  }
+  if (mode !== "record" && mode !== "replay") {
+    throw new Error(`Unknown LLM cassette mode: ${mode}`);
+  }
+  return new Cassette(process.env.LLM_CASSETTE_DIR || path.resolve("cassettes"), mode);
+}
+
+let activeCassette = createCassette();
+
+/**
+ * The cassette LLM calls are recorded to or replayed from, if any.
+ */
+export function getCassette(): Cassette | null {
+  return activeCassette;
+}
+
+/**
+ * Switches the cassette, e.g. for a test. Pass null to call the models again.
+ */
+export function useCassette(cassette: Cassette | null): void {
+  activeCassette = cassette;
+}
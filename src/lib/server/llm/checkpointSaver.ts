@@ -0,0 +1,184 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  WRITES_IDX_MAP,
+  getCheckpointId,
+  type ChannelVersions,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+} from "@langchain/langgraph-checkpoint";
+import type { IAnalysisCheckpointRepository } from "../database/interfaces";
+import type { AnalysisCheckpoint } from "../database/schema";
+
+/**
+ * LangGraph checkpointer that persists the workflow state after every node,
+ * using the analysis ID as the thread ID. This lets a failed analysis be resumed
+ * from its last completed node instead of being re-run from scratch.
+ */
+export class AnalysisCheckpointSaver extends BaseCheckpointSaver {
+  constructor(private checkpointRepository: IAnalysisCheckpointRepository) {
+    super();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const analysisId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = getCheckpointId(config);
+
+    if (!analysisId) {
+      return undefined;
+    }
+
+    const row = checkpointId
+      ? await this.checkpointRepository.getByCheckpointId(analysisId, checkpointNs, checkpointId)
+      : await this.checkpointRepository.getLatest(analysisId, checkpointNs);
+
+    return row ? this.toCheckpointTuple(row) : undefined;
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const { before, limit, filter } = options ?? {};
+    const rows = await this.checkpointRepository.list(config.configurable?.thread_id, {
+      checkpointNs: config.configurable?.checkpoint_ns,
+      before: before?.configurable?.checkpoint_id,
+      // Metadata filters are applied after loading, so only limit the query when there are none
+      limit: filter ? undefined : limit,
+    });
+
+    let remaining = limit;
+    for (const row of rows) {
+      const tuple = await this.toCheckpointTuple(row);
+      if (filter && !Object.entries(filter).every(([key, value]) => (tuple.metadata as Record<string, unknown> | undefined)?.[key] === value)) {
+        continue;
+      }
+      if (remaining !== undefined) {
+        if (remaining <= 0) break;
+        remaining -= 1;
+      }
+      yield tuple;
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+    _newVersions: ChannelVersions
+  ): Promise<RunnableConfig> {
+    const analysisId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (!analysisId) {
+      throw new Error("Failed to put checkpoint: missing analysis ID (thread_id) in config");
+    }
+
+    const [serializationType, serializedCheckpoint] = await this.serde.dumpsTyped(checkpoint);
+    const [metadataType, serializedMetadata] = await this.serde.dumpsTyped(metadata);
+    if (metadataType !== "json") {
+      throw new Error(`Failed to put checkpoint: unsupported metadata serialization type "${metadataType}"`);
+    }
+
+    await this.checkpointRepository.create({
+      analysisId,
+      checkpointNs,
+      checkpointId: checkpoint.id,
+      parentCheckpointId: config.configurable?.checkpoint_id,
+      serializationType,
+      checkpoint: encode(serializationType, serializedCheckpoint),
+      metadata: encode(metadataType, serializedMetadata),
+    });
+
+    return {
+      configurable: {
+        thread_id: analysisId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const analysisId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (!analysisId || !checkpointId) {
+      throw new Error("Failed to put writes: missing analysis ID (thread_id) or checkpoint ID in config");
+    }
+
+    const rows = await Promise.all(
+      writes.map(async ([channel, value], index) => {
+        const [serializationType, serializedValue] = await this.serde.dumpsTyped(value);
+        return {
+          analysisId,
+          checkpointNs,
+          checkpointId,
+          taskId,
+          idx: WRITES_IDX_MAP[channel] ?? index,
+          channel,
+          serializationType,
+          value: encode(serializationType, serializedValue),
+        };
+      })
+    );
+
+    await this.checkpointRepository.upsertWrites(rows);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.checkpointRepository.deleteByAnalysisId(threadId);
+  }
+
+  private async toCheckpointTuple(row: AnalysisCheckpoint): Promise<CheckpointTuple> {
+    const writes = await this.checkpointRepository.getWrites(row.analysisId, row.checkpointNs, row.checkpointId);
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.map(async (write) => [
+        write.taskId,
+        write.channel,
+        await this.serde.loadsTyped(write.serializationType, decode(write.serializationType, write.value)),
+      ] as CheckpointPendingWrite)
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.analysisId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.checkpointId,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.serializationType, decode(row.serializationType, row.checkpoint)),
+      metadata: await this.serde.loadsTyped("json", row.metadata),
+      pendingWrites,
+    };
+
+    if (row.parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.analysisId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.parentCheckpointId,
+        },
+      };
+    }
+
+    return tuple;
+  }
+}
+
+// Checkpoints are stored in text columns: JSON as text, binary values (type "bytes") base64-encoded
+function encode(type: string, data: Uint8Array | string): string {
+  if (type === "json") {
+    return typeof data === "string" ? data : new TextDecoder().decode(data);
+  }
+  if (type === "bytes") {
+    return Buffer.from(typeof data === "string" ? new TextEncoder().encode(data) : data).toString("base64");
+  }
+  throw new Error(`Unsupported checkpoint serialization type "${type}"`);
+}
+
+function decode(type: string, text: string): Uint8Array | string {
+  return type === "bytes" ? new Uint8Array(Buffer.from(text, "base64")) : text;
+}
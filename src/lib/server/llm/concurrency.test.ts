@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { mapWithConcurrency } from './concurrency';
+
+describe('mapWithConcurrency', () => {
+	it('runs at most `limit` calls at the same time', async () => {
+		let running = 0;
+		let maxRunning = 0;
+
+		await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			running--;
+		});
+
+		expect(maxRunning).toBe(3);
+	});
+
+	it('returns the results in the order of the items', async () => {
+		// Later items finish first
+		const results = await mapWithConcurrency([30, 20, 10, 0], 4, async (delay, index) => {
+			await new Promise((resolve) => setTimeout(resolve, delay));
+			return `${index}:${delay}`;
+		});
+
+		expect(results).toEqual(['0:30', '1:20', '2:10', '3:0']);
+	});
+
+	it('handles no items and a limit below one', async () => {
+		expect(await mapWithConcurrency([], 2, async (item) => item)).toEqual([]);
+		expect(await mapWithConcurrency(['a', 'b'], 0, async (item) => item.toUpperCase())).toEqual(['A', 'B']);
+	});
+
+	it('rejects with the first error', async () => {
+		await expect(
+			mapWithConcurrency([1, 2, 3], 2, async (item) => {
+				if (item === 2) throw new Error('Item 2 failed');
+				return item;
+			})
+		).rejects.toThrow('Item 2 failed');
+	});
+});
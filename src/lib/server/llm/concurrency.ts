@@ -0,0 +1,26 @@
+/**
+ * Maps items with an async function, running at most `limit` calls at the same time.
+ * The results are in the order of the items. Like Promise.all, it rejects on the first error,
+ * so `fn` should handle the errors that shouldn't stop the other items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Every worker keeps taking the next item until all are taken
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
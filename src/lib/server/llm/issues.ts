@@ -0,0 +1,28 @@
+import type { AnalysisIssue, AnalysisState } from "./types";
+import type { AnalysisResultStatus } from "../database/schema";
+
+/**
+ * Creates an issue of a workflow node, with the message of the error that caused it (if any).
+ */
+export function nodeIssue(
+  node: string,
+  severity: AnalysisIssue["severity"],
+  message: string,
+  error?: unknown
+): AnalysisIssue {
+  if (error !== undefined) {
+    message = `${message}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  return { node, severity, message };
+}
+
+/**
+ * The outcome of a run: failed if it produced no categorized impacts, partial if parts of the analysis
+ * are missing (any errors), complete otherwise. Warnings don't affect the status.
+ */
+export function getResultStatus(state: Pick<AnalysisState, "groupedCategories" | "issues">): AnalysisResultStatus {
+  if (Object.values(state.groupedCategories ?? {}).every((impacts) => impacts.length === 0)) {
+    return "failed";
+  }
+  return (state.issues ?? []).some((issue) => issue.severity === "error") ? "partial" : "complete";
+}
@@ -11,14 +11,26 @@ export const langfuseHandler = new CallbackHandler({
   baseUrl: process.env.LANGFUSE_HOST || "https://cloud.langfuse.com",
 });
 
-// Function to wrap the workflow invocation with Langfuse tracing
-export async function invokeWithTracing(workflow: any, input: any) {
+// Function to wrap the workflow invocation with Langfuse tracing.
+// The analysis ID is the checkpointer's thread ID; pass `null` as input to resume a run from its last checkpoint.
+// The optional signal aborts the run, a checkpoint ID resumes it from that (earlier) checkpoint instead of the last one.
+export async function invokeWithTracing(
+  workflow: any,
+  input: any,
+  analysisId: string = input?.analysisId,
+  signal?: AbortSignal,
+  checkpointId?: string
+) {
   try {
     // Pass to the LangGraph invocation
     // Note: Langfuse's integration with LangChain.js expects the callback in the config object
     const result = await workflow.invoke(
       input,
-      { callbacks: [langfuseHandler] }
+      {
+        callbacks: [langfuseHandler],
+        configurable: { thread_id: analysisId, ...(checkpointId ? { checkpoint_id: checkpointId } : {}) },
+        signal
+      }
     );
     return result;
   } catch (error) {
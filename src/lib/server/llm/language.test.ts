@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, isAnalysisLanguage, languageInstruction } from './language';
+
+describe('detectLanguage', () => {
+	it('detects the supported languages', () => {
+		expect(detectLanguage('We should build a fleet of electric buses for the city and replace the old diesel buses')).toBe('en');
+		expect(detectLanguage('Wir sollten eine Flotte von Elektrobussen für die Stadt bauen und die alten Dieselbusse ersetzen')).toBe('de');
+		expect(detectLanguage('Debemos construir una flota de autobuses eléctricos para la ciudad y sustituir los viejos autobuses diésel')).toBe('es');
+		expect(detectLanguage('Nous devrions construire une flotte de bus électriques pour la ville et remplacer les vieux bus diesel')).toBe('fr');
+	});
+
+	it('falls back to English without any known words', () => {
+		expect(detectLanguage('')).toBe('en');
+		expect(detectLanguage('E-Bus 2030!')).toBe('en');
+	});
+});
+
+describe('isAnalysisLanguage', () => {
+	it('accepts only the supported language codes', () => {
+		expect(isAnalysisLanguage('de')).toBe(true);
+		expect(isAnalysisLanguage('it')).toBe(false);
+		expect(isAnalysisLanguage(undefined)).toBe(false);
+	});
+});
+
+describe('languageInstruction', () => {
+	it('leaves English prompts unchanged', () => {
+		expect(languageInstruction('en')).toBe('');
+		expect(languageInstruction(null)).toBe('');
+	});
+
+	it('asks for the results in the language without adding prompt variables', () => {
+		const instruction = languageInstruction('es');
+		expect(instruction).toContain('Spanish');
+		expect(instruction).not.toMatch(/[{}]/);
+	});
+});
@@ -0,0 +1,53 @@
+import { analysisLanguages, type AnalysisLanguage } from "../database/schema";
+
+export const DEFAULT_LANGUAGE: AnalysisLanguage = "en";
+
+export const LANGUAGE_NAMES: Record<AnalysisLanguage, string> = {
+  en: "English",
+  de: "German",
+  es: "Spanish",
+  fr: "French"
+};
+
+// Frequent words that (almost) only occur in one of the languages; shared ones like "de" or "la" are left out
+const STOPWORDS: Record<AnalysisLanguage, Set<string>> = {
+  en: new Set(["the", "and", "of", "to", "is", "that", "for", "with", "are", "be", "this", "will", "it", "our", "we", "should", "would", "from", "by", "which"]),
+  de: new Set(["der", "die", "das", "und", "ist", "nicht", "mit", "ein", "eine", "für", "auf", "den", "dem", "zu", "wir", "sollten", "sich", "von", "werden", "auch"]),
+  es: new Set(["el", "los", "las", "y", "del", "una", "para", "con", "por", "su", "más", "como", "lo", "al", "pero", "sus", "nuestra", "debemos", "están", "este"]),
+  fr: new Set(["le", "les", "et", "des", "est", "une", "pour", "dans", "du", "qui", "pas", "sur", "au", "avec", "nous", "ce", "aux", "sont", "cette", "devrions"])
+};
+
+export function isAnalysisLanguage(value: unknown): value is AnalysisLanguage {
+  return typeof value === "string" && (analysisLanguages as readonly string[]).includes(value);
+}
+
+/**
+ * Detects the language of a proposal by counting the frequent words of every supported language.
+ * Falls back to English if none of them occur, a tie is decided in the order of analysisLanguages.
+ */
+export function detectLanguage(text: string): AnalysisLanguage {
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+
+  let detected = DEFAULT_LANGUAGE;
+  let maxHits = 0;
+  for (const language of analysisLanguages) {
+    const hits = words.filter((word) => STOPWORDS[language].has(word)).length;
+    if (hits > maxHits) {
+      detected = language;
+      maxHits = hits;
+    }
+  }
+  return detected;
+}
+
+/**
+ * The instruction appended to the prompts (which are written in English) to get the results in another language.
+ * Empty for English. Fixed values of the output format, like the JSON keys and enums, stay in English.
+ */
+export function languageInstruction(language: AnalysisLanguage | null | undefined): string {
+  if (!language || language === "en") {
+    return "";
+  }
+  const name = LANGUAGE_NAMES[language];
+  return `\n\nLanguage: Write all text of your answer (statements, names, descriptions, findings, rationales, the summary) in ${name}, even though these instructions are in English. Keep the JSON keys and fixed values (like codes, "positive" or "short") exactly as specified in the format instructions, and don't translate text that must be repeated verbatim.`;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from 'vitest';
+import { validateCategories } from './categorizeImpacts';
+
+// Only the built-in prompt versions
+vi.mock('$lib/server/database/supabase', () => ({
+	createRepositories: () => ({
+		promptVersions: { listVersions: async () => [], getByNameAndVersion: async () => null }
+	})
+}));
+
+const impacts = ['Fewer cars in the centre', 'Cleaner air', 'More cycling'];
+
+describe('validateCategories', () => {
+	it('accepts a categorization that covers every impact once', () => {
+		const categories = { Mobility: ['Fewer cars in the centre', 'More cycling'], Health: ['Cleaner air'] };
+
+		expect(validateCategories(categories, impacts)).toEqual({ categories, missing: [], duplicates: [], unknown: [] });
+	});
+
+	it('matches reworded impacts back to their original wording', () => {
+		const result = validateCategories({ Mobility: ['fewer cars in the centre.', 'More  cycling'], Health: ['CLEANER AIR!'] }, impacts);
+
+		expect(result.categories).toEqual({ Mobility: ['Fewer cars in the centre', 'More cycling'], Health: ['Cleaner air'] });
+		expect(result.unknown).toEqual([]);
+	});
+
+	it('reports the impacts that are missing', () => {
+		const result = validateCategories({ Mobility: ['Fewer cars in the centre'] }, impacts);
+
+		expect(result.missing).toEqual(['Cleaner air', 'More cycling']);
+	});
+
+	it('keeps duplicates only in their first category', () => {
+		const result = validateCategories(
+			{ Mobility: ['Fewer cars in the centre', 'Cleaner air'], Health: ['Cleaner air'], Climate: ['Cleaner air', 'More cycling'] },
+			impacts
+		);
+
+		expect(result.categories).toEqual({ Mobility: ['Fewer cars in the centre', 'Cleaner air'], Climate: ['More cycling'] });
+		expect(result.duplicates).toEqual(['Cleaner air']);
+		expect(result.missing).toEqual([]);
+	});
+
+	it('drops made-up impacts and categories left empty', () => {
+		const result = validateCategories({ Mobility: [...impacts], Economy: ['More jobs'] }, impacts);
+
+		expect(result.categories).toEqual({ Mobility: impacts });
+		expect(result.unknown).toEqual(['More jobs']);
+	});
+});
@@ -1,10 +1,20 @@
-import { PromptTemplate } from "@langchain/core/prompts";
+import type { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
-import { LLM_MODELS, type AnalysisState } from "../types";
+import type { AnalysisIssue, AnalysisState, CategorizationIssues } from "../types";
 import { ChatOpenAI } from "@langchain/openai";
 import { langfuseHandler } from "../langfuseIntegration";
 import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel, type NodeModelConfig } from "../profiles";
+import { normalizeImpact } from "./expandDownstreamImpacts";
+
+// How often the model is asked again to categorize the impacts it left out
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Impacts that still have no category after the repair attempts end up here, so they aren't lost
+export const UNCATEGORIZED_CATEGORY = "Uncategorized";
 
 // Define the output schema
 const outputSchema = z.object({
@@ -13,8 +23,7 @@ const outputSchema = z.object({
 
 const parser = StructuredOutputParser.fromZodSchema(outputSchema);
 
-// Create the prompt template with proper formatting
-const prompt = PromptTemplate.fromTemplate(`
+promptRegistry.register("categorize", "1", `
 You are an expert categorizer and organizer.
 
 Task: Take a list of impactStatements and group them into logical categories. The categories should be high-level and relevant to a sustainability analysis (e.g., "Resource Impact", "Labor & Social", "Environmental", "Economic", "Governance"). The output should be a structured JSON object.
@@ -22,41 +31,158 @@ Task: Take a list of impactStatements and group them into logical categories. Th
 Input impactStatements: {statements}
 
 {format_instructions}
-`.trim());
+`);
+
+promptRegistry.register("categorize-repair", "1", `
+You are an expert categorizer and organizer.
+
+Task: The impactStatements below were left out when a list of impacts was grouped into categories. Assign every one of them to exactly one category. Prefer the existing categories; only add a new high-level category if none of them fits. Copy the statements exactly as they are written.
+
+Existing categories: {categories}
+
+Input impactStatements: {statements}
+
+{format_instructions}
+`);
+
+/**
+ * Checks that every impact appears in exactly one category. Impacts the model reworded are matched
+ * back to the original wording; duplicates are only kept in their first category and made-up impacts are dropped.
+ */
+export function validateCategories(
+  categories: { [key: string]: string[] },
+  impacts: string[]
+): { categories: { [key: string]: string[] }; missing: string[]; duplicates: string[]; unknown: string[] } {
+  const impactsByKey = new Map(impacts.map((impact) => [normalizeImpact(impact), impact]));
+  const categorized = new Set<string>();
+  const duplicates: string[] = [];
+  const unknown: string[] = [];
+  const validated: { [key: string]: string[] } = {};
+
+  for (const [category, categoryImpacts] of Object.entries(categories)) {
+    const valid: string[] = [];
+    for (const item of categoryImpacts) {
+      const impact = impactsByKey.get(normalizeImpact(item));
+      if (impact === undefined) {
+        unknown.push(item);
+      } else if (categorized.has(impact)) {
+        duplicates.push(impact);
+      } else {
+        categorized.add(impact);
+        valid.push(impact);
+      }
+    }
+    if (valid.length > 0) {
+      validated[category] = valid;
+    }
+  }
+
+  return {
+    categories: validated,
+    missing: impacts.filter((impact) => !categorized.has(impact)),
+    duplicates: [...new Set(duplicates)],
+    unknown
+  };
+}
+
+async function invokeCategorization(
+  prompt: PromptTemplate,
+  input: { [key: string]: string },
+  nodeModel: NodeModelConfig
+): Promise<{ [key: string]: string[] }> {
+  // Invoke with retry mechanism and fallback models
+  const result = await callWithRetry(
+    prompt,
+    parser,
+    {
+      ...input,
+      format_instructions: parser.getFormatInstructions()
+    },
+    {
+      model: nodeModel.model,
+      temperature: nodeModel.temperature,
+      callbacks: [langfuseHandler]
+    },
+    {
+      maxRetries: 3,
+      fallbackModels: nodeModel.fallbackModels
+    }
+  );
+  return result.categories;
+}
 
 export async function categorizeImpacts(state: AnalysisState): Promise<Partial<AnalysisState>> {
   try {
     console.log("Categorizing", state.downstreamImpacts.length, "downstream impacts...");
-    
-    // Invoke with retry mechanism and fallback models
-    const result = await callWithRetry(
-      prompt,
-      parser,
-      {
-        statements: state.downstreamImpacts.join("\n"),
-        format_instructions: parser.getFormatInstructions()
-      },
-      {
-        model: LLM_MODELS.CLAUDE_3_HAIKU,
-        temperature: 0,
-        callbacks: [langfuseHandler]
-      },
-      {
-        maxRetries: 3,
-        fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET]
+    const prompt = await promptRegistry.get("categorize", state.promptVersions, state.language);
+    const nodeModel = getNodeModel(state.profile, "categorize");
+
+    const result = await invokeCategorization(prompt, { statements: state.downstreamImpacts.join("\n") }, nodeModel);
+    let { categories, missing, duplicates, unknown } = validateCategories(result, state.downstreamImpacts);
+
+    // Ask again for the impacts the model left out
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && missing.length > 0; attempt++) {
+      console.warn(`Categorization left out ${missing.length} impacts, repair attempt ${attempt}`);
+      try {
+        const repairPrompt = await promptRegistry.get("categorize-repair", state.promptVersions, state.language);
+        const repair = validateCategories(
+          await invokeCategorization(
+            repairPrompt,
+            { categories: Object.keys(categories).join(", "), statements: missing.join("\n") },
+            nodeModel
+          ),
+          missing
+        );
+
+        for (const [category, categoryImpacts] of Object.entries(repair.categories)) {
+          categories[category] = [...(categories[category] ?? []), ...categoryImpacts];
+        }
+        missing = repair.missing;
+        duplicates = [...new Set([...duplicates, ...repair.duplicates])];
+        unknown = [...unknown, ...repair.unknown];
+      } catch (error) {
+        console.error("Error repairing the categorization:", error);
+        break;
       }
-    );
-    
-    console.log("Successfully categorized impacts into", Object.keys(result.categories).length, "categories");
-    console.debug("Categories: ", result.categories)
+    }
+
+    if (missing.length > 0) {
+      categories = {
+        ...categories,
+        [UNCATEGORIZED_CATEGORY]: [...(categories[UNCATEGORIZED_CATEGORY] ?? []), ...missing]
+      };
+    }
+
+    const categorizationIssues: CategorizationIssues = { uncategorized: missing, duplicates, unknown };
+    if (missing.length + duplicates.length + unknown.length > 0) {
+      console.warn("Categorization issues:", categorizationIssues);
+    }
+
+    const issues: AnalysisIssue[] = [];
+    if (missing.length > 0) {
+      issues.push(nodeIssue("categorize", "warning", `${missing.length} impacts could not be categorized and are listed under "${UNCATEGORIZED_CATEGORY}"`));
+    }
+    if (duplicates.length > 0) {
+      issues.push(nodeIssue("categorize", "warning", `${duplicates.length} impacts were put into several categories and are only listed in the first one`));
+    }
+    if (unknown.length > 0) {
+      issues.push(nodeIssue("categorize", "warning", `${unknown.length} impacts that were not generated by the analysis were dropped`));
+    }
+
+    console.log("Successfully categorized impacts into", Object.keys(categories).length, "categories");
+    console.debug("Categories: ", categories)
     
     return {
-      groupedCategories: result.categories
+      groupedCategories: categories,
+      categorizationIssues,
+      issues
     };
   } catch (error) {
     console.error("Error in categorizeImpacts:", error);
     return {
-      groupedCategories: {}
+      groupedCategories: {},
+      categorizationIssues: null,
+      issues: [nodeIssue("categorize", "error", "The impacts could not be categorized", error)]
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,106 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import type { AnalysisIssue, AnalysisState, CategoryCritique } from "../types";
+import { langfuseHandler } from "../langfuseIntegration";
+import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+import { mapWithConcurrency } from "../concurrency";
+
+// Number of categories critiqued at the same time
+const CRITIQUE_CONCURRENCY = Number(process.env.ANALYSIS_EVALUATION_CONCURRENCY) || 4;
+
+// Define the output schema
+const outputSchema = z.object({
+  counterArguments: z.array(z.string()).describe("The strongest arguments that the score is too high or too low, 2-4 items"),
+  overlookedRisks: z.array(z.string()).describe("Risks, side effects or affected groups the evaluation didn't consider, 1-3 items"),
+});
+
+const parser = StructuredOutputParser.fromZodSchema(outputSchema);
+
+promptRegistry.register("critique", "1", `
+You are a rigorous red-team reviewer. Your job is to challenge an impact evaluation, not to agree with it.
+
+An evaluator scored the impacts of a proposal in one impactCategory between -1.0 (highly negative) and +1.0 (highly positive), based on the research findings below. Make the strongest case against the category score: arguments that it is too optimistic or too pessimistic, weak spots in the research, and risks, side effects or affected groups the evaluation overlooked. Be specific to these statements; don't repeat the evaluator's reasoning.
+
+ImpactCategory: {category}
+Category score: {score}
+Scored statements:
+{statements}
+
+Research findings: {research}
+
+{format_instructions}
+`);
+
+export async function critiqueScores(state: AnalysisState): Promise<Partial<AnalysisState>> {
+  try {
+    console.log("Challenging the scores of", Object.keys(state.evaluatedScores).length, "categories...");
+    const prompt = await promptRegistry.get("critique", state.promptVersions, state.language);
+    const nodeModel = getNodeModel(state.profile, "critique");
+
+    const categories = Object.keys(state.groupedCategories).filter((category) => category in state.evaluatedScores);
+    const issues: AnalysisIssue[] = [];
+
+    const results = await mapWithConcurrency(categories, CRITIQUE_CONCURRENCY, async (category) => {
+      try {
+        const statements = state.groupedCategories[category].map((impact, index) => {
+          const evaluation = state.impactEvaluations?.[impact];
+          return evaluation
+            ? `${index + 1}. ${impact} (score ${evaluation.score}: ${evaluation.rationale})`
+            : `${index + 1}. ${impact}`;
+        });
+
+        // Invoke with retry mechanism and fallback models
+        const result = await callWithRetry(
+          prompt,
+          parser,
+          {
+            category,
+            score: state.evaluatedScores[category],
+            statements: statements.join("\n"),
+            research: state.researchFindings?.[category] || "(no research findings)",
+            format_instructions: parser.getFormatInstructions()
+          },
+          {
+            model: nodeModel.model,
+            temperature: nodeModel.temperature,
+            callbacks: [langfuseHandler]
+          },
+          {
+            maxRetries: 3,
+            fallbackModels: nodeModel.fallbackModels
+          }
+        );
+
+        return result as CategoryCritique;
+      } catch (error) {
+        console.error("Error critiquing category:", category, error);
+        issues.push(nodeIssue("critique", "error", `The counter-arguments for "${category}" are missing`, error));
+        return null;
+      }
+    });
+
+    const critiques: { [key: string]: CategoryCritique } = {};
+    categories.forEach((category, index) => {
+      const critique = results[index];
+      if (critique) {
+        critiques[category] = critique;
+      }
+    });
+
+    console.log("Successfully challenged the scores of", Object.keys(critiques).length, "categories");
+
+    return {
+      critiques,
+      issues
+    };
+  } catch (error) {
+    console.error("Error in critiqueScores:", error);
+    return {
+      critiques: {},
+      issues: [nodeIssue("critique", "error", "The scores could not be challenged", error)]
+    };
+  }
+}
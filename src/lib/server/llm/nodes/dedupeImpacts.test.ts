@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { toMergedImpacts } from './dedupeImpacts';
+
+// Only the built-in prompt versions
+vi.mock('$lib/server/database/supabase', () => ({
+	createRepositories: () => ({
+		promptVersions: { listVersions: async () => [], getByNameAndVersion: async () => null }
+	})
+}));
+
+const impacts = ['Fewer cars in the centre', 'Less car traffic downtown', 'Cleaner air', 'Better air quality', 'More cycling'];
+
+describe('toMergedImpacts', () => {
+	it('maps every kept impact to the impacts merged into it', () => {
+		const merged = toMergedImpacts(
+			[
+				{ statement: 1, duplicates: [2] },
+				{ statement: 3, duplicates: [4] }
+			],
+			impacts
+		);
+
+		expect(merged).toEqual({
+			'Fewer cars in the centre': ['Less car traffic downtown'],
+			'Cleaner air': ['Better air quality']
+		});
+	});
+
+	it('ignores unknown numbers and merging an impact into itself', () => {
+		expect(toMergedImpacts([{ statement: 1, duplicates: [1, 9] }, { statement: 7, duplicates: [2] }], impacts)).toEqual({});
+	});
+
+	it('merges every impact only once', () => {
+		const merged = toMergedImpacts(
+			[
+				{ statement: 1, duplicates: [2] },
+				{ statement: 5, duplicates: [2, 3] }
+			],
+			impacts
+		);
+
+		expect(merged).toEqual({
+			'Fewer cars in the centre': ['Less car traffic downtown'],
+			'More cycling': ['Cleaner air']
+		});
+	});
+
+	it('neither merges into an impact that was merged away nor merges away a kept impact', () => {
+		const merged = toMergedImpacts(
+			[
+				{ statement: 1, duplicates: [2] },
+				{ statement: 2, duplicates: [3] },
+				{ statement: 3, duplicates: [1] }
+			],
+			impacts
+		);
+
+		expect(merged).toEqual({ 'Fewer cars in the centre': ['Less car traffic downtown'] });
+	});
+});
@@ -0,0 +1,140 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import type { AnalysisState } from "../types";
+import { langfuseHandler } from "../langfuseIntegration";
+import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+
+// Define the output schema
+const outputSchema = z.object({
+  duplicates: z.array(z.object({
+    statement: z.number().describe("Number of the statement to keep, the clearest wording of the group"),
+    duplicates: z.array(z.number()).describe("Numbers of the statements that describe the same impact"),
+  })).describe("Only the groups of statements that describe the same impact; leave out statements without duplicates"),
+});
+
+const parser = StructuredOutputParser.fromZodSchema(outputSchema);
+
+promptRegistry.register("dedupe", "1", `
+You are a meticulous editor of impact analyses.
+
+Task: The impactStatements below were generated independently, so some of them describe the same consequence in different words (e.g. "Increased electricity demand" and "Higher demand on the power grid"). Find the groups of statements that describe the same impact. Only group statements that are genuinely interchangeable; statements about related but different effects (e.g. a cause and its consequence, or effects on different groups of people) must stay separate.
+
+Input impactStatements:
+{statements}
+
+{format_instructions}
+`);
+
+/**
+ * Resolves the groups of duplicates found by the LLM to kept impact -> the impacts merged into it.
+ * Every impact is merged at most once and never into itself or into an impact that was merged away.
+ */
+export function toMergedImpacts(
+  groups: z.infer<typeof outputSchema>["duplicates"],
+  impacts: string[]
+): { [key: string]: string[] } {
+  const merged: { [key: string]: string[] } = {};
+  const mergedAway = new Set<string>();
+
+  for (const group of groups) {
+    const kept = impacts[group.statement - 1];
+    if (kept === undefined || mergedAway.has(kept)) {
+      continue;
+    }
+
+    for (const number of group.duplicates) {
+      const duplicate = impacts[number - 1];
+      if (duplicate === undefined || duplicate === kept || mergedAway.has(duplicate) || merged[duplicate]) {
+        continue;
+      }
+      mergedAway.add(duplicate);
+      (merged[kept] ??= []).push(duplicate);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merges downstream impacts that describe the same consequence, so they're categorized, scored and voted on once.
+ * The kept impact remembers the impacts merged into it (mergedImpacts).
+ */
+export async function dedupeImpacts(state: AnalysisState): Promise<Partial<AnalysisState>> {
+  try {
+    console.log("Looking for duplicates among", state.downstreamImpacts.length, "downstream impacts...");
+    if (state.downstreamImpacts.length < 2) {
+      return { mergedImpacts: {} };
+    }
+
+    const prompt = await promptRegistry.get("dedupe", state.promptVersions);
+    const nodeModel = getNodeModel(state.profile, "dedupe");
+
+    // Invoke with retry mechanism and fallback models
+    const result = await callWithRetry(
+      prompt,
+      parser,
+      {
+        statements: state.downstreamImpacts.map((impact, index) => `${index + 1}. ${impact}`).join("\n"),
+        format_instructions: parser.getFormatInstructions()
+      },
+      {
+        model: nodeModel.model,
+        temperature: nodeModel.temperature,
+        callbacks: [langfuseHandler]
+      },
+      {
+        maxRetries: 3,
+        fallbackModels: nodeModel.fallbackModels
+      }
+    );
+
+    const mergedImpacts = toMergedImpacts(result.duplicates, state.downstreamImpacts);
+    const keptBy = new Map<string, string>();
+    for (const [kept, duplicates] of Object.entries(mergedImpacts)) {
+      duplicates.forEach((duplicate) => keptBy.set(duplicate, kept));
+    }
+    if (keptBy.size === 0) {
+      console.log("No duplicate impacts found");
+      return { mergedImpacts: {} };
+    }
+
+    // Drop the duplicates; higher-order impacts expanded from a duplicate now follow from the impact it was merged into
+    const downstreamImpacts = state.downstreamImpacts.filter((impact) => !keptBy.has(impact));
+    const statementImpacts = Object.fromEntries(
+      Object.entries(state.statementImpacts).map(([statement, impacts]) => [
+        statement,
+        impacts.filter((impact) => !keptBy.has(impact))
+      ])
+    );
+    const impactDepths = Object.fromEntries(
+      Object.entries(state.impactDepths).filter(([impact]) => !keptBy.has(impact))
+    );
+    const impactParents = Object.fromEntries(
+      Object.entries(state.impactParents)
+        .filter(([impact]) => !keptBy.has(impact))
+        .map(([impact, parent]) => [impact, keptBy.get(parent) ?? parent])
+        // An impact merged with its own parent is no longer a consequence of it
+        .filter(([impact, parent]) => impact !== parent)
+    );
+
+    console.log("Merged", keptBy.size, "duplicate impacts into", Object.keys(mergedImpacts).length, "impacts");
+
+    return {
+      downstreamImpacts,
+      statementImpacts,
+      impactDepths,
+      impactParents,
+      mergedImpacts
+    };
+  } catch (error) {
+    console.error("Error in dedupeImpacts:", error);
+    // Keep all impacts
+    return {
+      mergedImpacts: {},
+      issues: [nodeIssue("dedupe", "warning", "Similar impacts could not be merged", error)]
+    };
+  }
+}
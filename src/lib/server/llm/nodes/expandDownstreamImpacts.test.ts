@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	clampExpansionSetting,
+	selectForExpansion,
+	routeExpansion,
+	MAX_IMPACT_DEPTH_LIMIT
+} from './expandDownstreamImpacts';
+import type { AnalysisState } from '../types';
+
+// Only the built-in prompt versions
+vi.mock('$lib/server/database/supabase', () => ({
+	createRepositories: () => ({
+		promptVersions: { listVersions: async () => [], getByNameAndVersion: async () => null }
+	})
+}));
+
+describe('clampExpansionSetting', () => {
+	it('keeps values within the range', () => {
+		expect(clampExpansionSetting(4, 3, 6)).toBe(4);
+		expect(clampExpansionSetting('2', 3, 6)).toBe(2);
+	});
+
+	it('caps large values at the maximum', () => {
+		expect(clampExpansionSetting(15, 3, 6)).toBe(6);
+		expect(clampExpansionSetting('1000', 10, 50)).toBe(50);
+	});
+
+	it('falls back for missing, invalid, zero and negative values', () => {
+		expect(clampExpansionSetting(undefined, 3, 6)).toBe(3);
+		expect(clampExpansionSetting(null, 3, 6)).toBe(3);
+		expect(clampExpansionSetting('deep', 3, 6)).toBe(3);
+		expect(clampExpansionSetting(0, 3, 6)).toBe(3);
+		expect(clampExpansionSetting(-2, 3, 6)).toBe(3);
+	});
+
+	it('rounds fractions down', () => {
+		expect(clampExpansionSetting(2.7, 3, 6)).toBe(2);
+	});
+});
+
+describe('selectForExpansion', () => {
+	it('takes turns between the groups until the budget is used up', () => {
+		const groups = [
+			['a1', 'a2', 'a3'],
+			['b1'],
+			['c1', 'c2']
+		];
+
+		expect(selectForExpansion(groups, 4)).toEqual(['a1', 'b1', 'c1', 'a2']);
+		expect(selectForExpansion(groups, 10)).toEqual(['a1', 'b1', 'c1', 'a2', 'c2', 'a3']);
+	});
+
+	it('selects nothing without budget or impacts', () => {
+		expect(selectForExpansion([['a1']], 0)).toEqual([]);
+		expect(selectForExpansion([], 5)).toEqual([]);
+	});
+});
+
+describe('routeExpansion', () => {
+	const state = (depth: number, maxImpactDepth: number, frontier = ['impact']) =>
+		({
+			expansionFrontier: frontier,
+			impactDepths: { impact: depth },
+			maxImpactDepth
+		}) as unknown as AnalysisState;
+
+	it('expands until the frontier reaches the max depth', () => {
+		expect(routeExpansion(state(1, 3))).toBe('expand');
+		expect(routeExpansion(state(2, 3))).toBe('expand');
+		expect(routeExpansion(state(3, 3))).toBe('dedupe');
+	});
+
+	it('stops when there is nothing to expand', () => {
+		expect(routeExpansion(state(1, 3, []))).toBe('dedupe');
+	});
+
+	it('never goes beyond the depth limit, whatever the state asks for', () => {
+		expect(routeExpansion(state(MAX_IMPACT_DEPTH_LIMIT - 1, 100))).toBe('expand');
+		expect(routeExpansion(state(MAX_IMPACT_DEPTH_LIMIT, 100))).toBe('dedupe');
+	});
+});
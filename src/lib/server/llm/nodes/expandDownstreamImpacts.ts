@@ -0,0 +1,194 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import type { AnalysisIssue, AnalysisState } from "../types";
+import { langfuseHandler } from "../langfuseIntegration";
+import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+
+// Limits of the expansion loop: every level is another graph step, and the run aborts when it exceeds
+// LangGraph's recursion limit (25 steps), so the depth stays well below it
+export const MAX_IMPACT_DEPTH_LIMIT = 6;
+export const EXPANSION_BUDGET_LIMIT = 50;
+
+/**
+ * Clamps a depth or budget setting to 1..max, a missing or invalid value falls back to `fallback`.
+ */
+export function clampExpansionSetting(value: unknown, fallback: number, max: number): number {
+  const number = Math.floor(Number(value));
+  return Number.isFinite(number) && number > 0 ? Math.min(number, max) : fallback;
+}
+
+// Defaults for the expansion loop, can be overridden per analysis run through the state
+export const DEFAULT_MAX_IMPACT_DEPTH = clampExpansionSetting(process.env.ANALYSIS_MAX_IMPACT_DEPTH, 3, MAX_IMPACT_DEPTH_LIMIT);
+export const DEFAULT_EXPANSION_BUDGET = clampExpansionSetting(process.env.ANALYSIS_EXPANSION_BUDGET, 10, EXPANSION_BUDGET_LIMIT);
+
+// Define the output schema
+const outputSchema = z.object({
+  impacts: z.array(z.string()).describe("Array of further downstream impacts"),
+});
+
+const parser = StructuredOutputParser.fromZodSchema(outputSchema);
+
+promptRegistry.register("expand", "1", `
+You are a systems thinking expert. You understand how a single action can ripple through an ecosystem.
+
+Task: Given a chain of consequences that starts with an impactStatement, generate a list of 2-5 further consequences that follow from the last consequence in the chain. Only list ripple effects that are not already part of the chain. Think broadly about resources, labor, environment, social effects, and economic factors.
+
+Input chain:
+{chain}
+
+{format_instructions}
+`);
+
+/**
+ * Normalizes an impact for comparing it with other impacts (case, whitespace and punctuation are ignored).
+ */
+export function normalizeImpact(impact: string): string {
+  return impact.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+/**
+ * Picks up to `budget` impacts to expand on the next level, taking turns between the groups
+ * (statements or parent impacts) so every branch gets expanded.
+ */
+export function selectForExpansion(groups: string[][], budget: number): string[] {
+  const selected: string[] = [];
+  const longestGroup = Math.max(0, ...groups.map((group) => group.length));
+
+  for (let index = 0; index < longestGroup && selected.length < budget; index++) {
+    for (const group of groups) {
+      if (index < group.length && selected.length < budget) {
+        selected.push(group[index]);
+      }
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Decides whether the expansion loop runs another level.
+ */
+export function routeExpansion(state: AnalysisState): "expand" | "dedupe" {
+  const frontier = state.expansionFrontier ?? [];
+  if (frontier.length === 0) {
+    return "dedupe";
+  }
+
+  const depth = state.impactDepths?.[frontier[0]] ?? 1;
+  return depth < clampExpansionSetting(state.maxImpactDepth, 1, MAX_IMPACT_DEPTH_LIMIT) ? "expand" : "dedupe";
+}
+
+/**
+ * Expands the impacts of the current level into their higher-order consequences.
+ */
+export async function expandDownstreamImpacts(state: AnalysisState): Promise<Partial<AnalysisState>> {
+  try {
+    const frontier = state.expansionFrontier;
+    const depth = (state.impactDepths[frontier[0]] ?? 1) + 1;
+    console.log("Expanding", frontier.length, "impacts into order", depth, "impacts...");
+    const prompt = await promptRegistry.get("expand", state.promptVersions, state.language);
+    const nodeModel = getNodeModel(state.profile, "expand");
+
+    // Impacts are traced back to the statement they started from
+    const statementByImpact = new Map<string, string>();
+    for (const [statement, impacts] of Object.entries(state.statementImpacts)) {
+      impacts.forEach((impact) => statementByImpact.set(impact, statement));
+    }
+
+    const issues: AnalysisIssue[] = [];
+    const expansionPromises = frontier.map(async (impact) => {
+      // Build the chain statement -> impact -> ... -> impact to expand
+      const chain = [impact];
+      while (state.impactParents[chain[0]]) {
+        chain.unshift(state.impactParents[chain[0]]);
+      }
+      const statement = statementByImpact.get(impact);
+      if (statement) {
+        chain.unshift(statement);
+      }
+
+      try {
+        // Invoke with retry mechanism and fallback models
+        const result = await callWithRetry(
+          prompt,
+          parser,
+          {
+            chain: chain.map((step, index) => `${index + 1}. ${step}`).join("\n"),
+            format_instructions: parser.getFormatInstructions()
+          },
+          {
+            model: nodeModel.model,
+            temperature: nodeModel.temperature,
+            callbacks: [langfuseHandler]
+          },
+          {
+            maxRetries: 3,
+            fallbackModels: nodeModel.fallbackModels
+          }
+        );
+
+        return result.impacts;
+      } catch (error) {
+        console.error("Error expanding impact:", impact, error);
+        issues.push(nodeIssue("expand", "error", `The ripple effects of "${impact}" could not be generated`, error));
+        // Don't expand this impact any further
+        return [];
+      }
+    });
+
+    const expansionResults = await Promise.all(expansionPromises);
+
+    // Drop impacts that already came up on this or an earlier level
+    const seen = new Set(state.downstreamImpacts.map(normalizeImpact));
+    const downstreamImpacts = [...state.downstreamImpacts];
+    const statementImpacts = Object.fromEntries(
+      Object.entries(state.statementImpacts).map(([statement, impacts]) => [statement, [...impacts]])
+    );
+    const impactDepths = { ...state.impactDepths };
+    const impactParents = { ...state.impactParents };
+    const newImpactsByParent: string[][] = [];
+
+    frontier.forEach((parent, index) => {
+      const newImpacts: string[] = [];
+      for (const impact of expansionResults[index]) {
+        const key = normalizeImpact(impact);
+        if (!key || seen.has(key)) {
+          continue;
+        }
+        seen.add(key);
+        newImpacts.push(impact);
+
+        downstreamImpacts.push(impact);
+        impactDepths[impact] = depth;
+        impactParents[impact] = parent;
+        const statement = statementByImpact.get(parent);
+        if (statement) {
+          statementImpacts[statement].push(impact);
+        }
+      }
+      newImpactsByParent.push(newImpacts);
+    });
+
+    const addedCount = newImpactsByParent.reduce((count, impacts) => count + impacts.length, 0);
+    console.log("Added", addedCount, "order", depth, "impacts");
+
+    return {
+      downstreamImpacts,
+      statementImpacts,
+      impactDepths,
+      impactParents,
+      expansionFrontier: selectForExpansion(newImpactsByParent, state.expansionBudget),
+      issues
+    };
+  } catch (error) {
+    console.error("Error in expandDownstreamImpacts:", error);
+    // Stop expanding, keep the impacts found so far
+    return {
+      expansionFrontier: [],
+      issues: [nodeIssue("expand", "error", "Higher-order impacts could not be generated", error)]
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import path from 'path';
+import { Cassette, useCassette } from '../cassettes';
+import { extractStatements } from './extractStatements';
+import type { AnalysisState } from '../types';
+
+// Only the built-in prompt versions
+vi.mock('$lib/server/database/supabase', () => ({
+	createRepositories: () => ({
+		promptVersions: { listVersions: async () => [], getByNameAndVersion: async () => null }
+	})
+}));
+
+describe('extractStatements', () => {
+	beforeAll(() => {
+		useCassette(new Cassette(path.resolve('src/test/cassettes'), 'replay'));
+	});
+
+	afterAll(() => {
+		useCassette(null);
+	});
+
+	it('extracts the statements of the proposal', async () => {
+		const state: Partial<AnalysisState> = {
+			proposal: 'Introduce a congestion charge for the city centre and spend the revenue on cycle lanes',
+			profile: 'standard',
+			promptVersions: { extract: '1' }
+		};
+		const result = await extractStatements(state as AnalysisState);
+
+		expect(result.extractedStatements).toEqual([
+			'Introduce a congestion charge for the city centre',
+			'Spend the congestion charge revenue on cycle lanes'
+		]);
+		expect(result.issues).toEqual([]);
+	});
+});
@@ -1,10 +1,13 @@
-import { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
-import { LLM_MODELS, type AnalysisState } from "../types";
+import type { AnalysisState } from "../types";
 import { ChatOpenAI } from "@langchain/openai";
 import { langfuseHandler } from "../langfuseIntegration";
 import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+import { loadIdeaDocuments, type ResearchPassage } from "../research";
 // In a real implementation, we would integrate token tracking here
 // For now, we'll keep the existing implementation
 // Example of how token tracking would be integrated:
@@ -17,8 +20,10 @@ const outputSchema = z.object({
 
 const parser = StructuredOutputParser.fromZodSchema(outputSchema);
 
-// Create the prompt template with proper formatting
-const prompt = PromptTemplate.fromTemplate(`
+// Number of passages of the idea's supporting documents given as context
+const DOCUMENT_PASSAGES = 5;
+
+promptRegistry.register("extract", "1", `
 You are an expert analyst with a talent for deconstructing complex ideas into simple, atomic statements.
 
 Task: Take the user's proposal and identify all of its concrete components. Each component should be rephrased as a single, unambiguous statement of impact or action.
@@ -30,11 +35,41 @@ Input proposal: {proposal}
 Example:
 Input: proposal: "We should build a fleet of electric driverless vehicles for our city and replace trains to provide efficient transport for remote areas"
 Output: ["Build a fleet of electric driverless vehicles", "Replace existing trains", "Provide efficient transport for remote areas"]
-`.trim());
+`);
+
+promptRegistry.register("extract", "2", `
+You are an expert analyst with a talent for deconstructing complex ideas into simple, atomic statements.
+
+Task: Take the user's proposal and identify all of its concrete components. Each component should be rephrased as a single, unambiguous statement of impact or action.
+
+The passages from the supporting documents of the proposal provide context, e.g. the details of a measure the proposal only names. Use them to make the statements concrete, but only extract what the proposal itself proposes.
+
+Input proposal: {proposal}
+
+Passages from the supporting documents:
+{documents}
+
+{format_instructions}
+
+Example:
+Input: proposal: "We should build a fleet of electric driverless vehicles for our city and replace trains to provide efficient transport for remote areas"
+Output: ["Build a fleet of electric driverless vehicles", "Replace existing trains", "Provide efficient transport for remote areas"]
+`);
+
+function formatDocumentPassages(passages: ResearchPassage[]): string {
+  if (passages.length === 0) {
+    return "(no supporting documents)";
+  }
+  return passages.map((passage) => `${passage.title}:\n${passage.text}`).join("\n\n");
+}
 
 export async function extractStatements(state: AnalysisState): Promise<Partial<AnalysisState>> {
   try {
     console.log("Extracting statements from proposal...");
+    const prompt = await promptRegistry.get("extract", state.promptVersions, state.language);
+    const nodeModel = getNodeModel(state.profile, "extract");
+    const documents = await loadIdeaDocuments(state.ideaId);
+    const passages = documents ? await documents.search(state.proposal, { limit: DOCUMENT_PASSAGES }) : [];
     
     // TODO: In a real implementation, we would add token tracking callback here:
     // const tokenTrackingCallback = TokenTrackingIntegrationExample.createTrackingCallbackForAnalysis(state);
@@ -45,11 +80,12 @@ export async function extractStatements(state: AnalysisState): Promise<Partial<A
       parser,
       {
         proposal: state.proposal,
+        documents: formatDocumentPassages(passages),
         format_instructions: parser.getFormatInstructions()
       },
       {
-        model: LLM_MODELS.CLAUDE_3_HAIKU,
-        temperature: 0,
+        model: nodeModel.model,
+        temperature: nodeModel.temperature,
         callbacks: [
           langfuseHandler,
           // tokenTrackingCallback // TODO: Add token tracking callback
@@ -57,19 +93,21 @@ export async function extractStatements(state: AnalysisState): Promise<Partial<A
       },
       {
         maxRetries: 3,
-        fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET]
+        fallbackModels: nodeModel.fallbackModels
       }
     );
     
     console.log("Successfully extracted statements:", result.statements);
     
     return {
-      extractedStatements: result.statements
+      extractedStatements: result.statements,
+      issues: result.statements.length === 0 ? [nodeIssue("extract", "error", "No statements could be extracted from the proposal")] : []
     };
   } catch (error) {
     console.error("Error in extractStatements:", error);
     return {
-      extractedStatements: []
+      extractedStatements: [],
+      issues: [nodeIssue("extract", "error", "The statements of the proposal could not be extracted", error)]
     };
   }
 }
\ No newline at end of file
@@ -1,10 +1,13 @@
-import { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
-import { LLM_MODELS, type AnalysisState } from "../types";
+import type { AnalysisIssue, AnalysisState } from "../types";
 import { ChatOpenAI } from "@langchain/openai";
 import { langfuseHandler } from "../langfuseIntegration";
 import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+import { normalizeImpact, selectForExpansion } from "./expandDownstreamImpacts";
 
 // Define the output schema
 const outputSchema = z.object({
@@ -13,8 +16,7 @@ const outputSchema = z.object({
 
 const parser = StructuredOutputParser.fromZodSchema(outputSchema);
 
-// Create the prompt template with proper formatting
-const prompt = PromptTemplate.fromTemplate(`
+promptRegistry.register("downstream", "1", `
 You are a systems thinking expert. You understand how a single action can ripple through an ecosystem.
 
 Task: Given a single impactStatement, generate a list of 5-10 direct and indirect downstream consequences. Think broadly about resources, labor, environment, social effects, and economic factors.
@@ -22,13 +24,16 @@ Task: Given a single impactStatement, generate a list of 5-10 direct and indirec
 Input impactStatement: {statement}
 
 {format_instructions}
-`.trim());
+`);
 
 export async function generateDownstreamImpacts(state: AnalysisState): Promise<Partial<AnalysisState>> {
   try {
     console.log("Generating downstream impacts for", state.extractedStatements.length, "statements...");
+    const prompt = await promptRegistry.get("downstream", state.promptVersions, state.language);
+    const nodeModel = getNodeModel(state.profile, "downstream");
     
     // Generate downstream impacts for each statement in parallel
+    const issues: AnalysisIssue[] = [];
     const impactPromises = state.extractedStatements.map(async (statement) => {
       try {
         console.log("Generating impacts for statement:", statement);
@@ -42,13 +47,13 @@ export async function generateDownstreamImpacts(state: AnalysisState): Promise<P
             format_instructions: parser.getFormatInstructions()
           },
           {
-            model: LLM_MODELS.CLAUDE_3_HAIKU,
-            temperature: 0.7,
+            model: nodeModel.model,
+            temperature: nodeModel.temperature,
             callbacks: [langfuseHandler]
           },
           {
             maxRetries: 3,
-            fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET]
+            fallbackModels: nodeModel.fallbackModels
           }
         );
         
@@ -57,6 +62,7 @@ export async function generateDownstreamImpacts(state: AnalysisState): Promise<P
         return result.impacts;
       } catch (error) {
         console.error("Error generating impacts for statement:", statement, error);
+        issues.push(nodeIssue("downstream", "error", `The impacts of "${statement}" could not be generated`, error));
         // Return empty array on error for this statement
         return [];
       }
@@ -65,18 +71,44 @@ export async function generateDownstreamImpacts(state: AnalysisState): Promise<P
     // Wait for all promises to resolve
     const impactResults = await Promise.all(impactPromises);
     
+    // Keep track of which statement each impact was generated from, dropping impacts another statement already produced
+    const seen = new Set<string>();
+    const statementImpacts: { [key: string]: string[] } = {};
+    state.extractedStatements.forEach((statement, index) => {
+      statementImpacts[statement] = impactResults[index].filter((impact: string) => {
+        const key = normalizeImpact(impact);
+        if (!key || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    });
+
     // Flatten the results into a single array
-    const downstreamImpacts = impactResults.flat();
+    const downstreamImpacts = Object.values(statementImpacts).flat();
+    const impactDepths = Object.fromEntries(downstreamImpacts.map((impact) => [impact, 1]));
     
     console.log("Successfully generated", downstreamImpacts.length, "downstream impacts");
     
     return {
-      downstreamImpacts
+      downstreamImpacts,
+      statementImpacts,
+      impactDepths,
+      impactParents: {},
+      // First-order impacts to expand into second-order ones (if the run goes deeper than one level)
+      expansionFrontier: selectForExpansion(Object.values(statementImpacts), state.expansionBudget),
+      issues
     };
   } catch (error) {
     console.error("Error in generateDownstreamImpacts:", error);
     return {
-      downstreamImpacts: []
+      downstreamImpacts: [],
+      statementImpacts: {},
+      impactDepths: {},
+      impactParents: {},
+      expansionFrontier: [],
+      issues: [nodeIssue("downstream", "error", "The downstream impacts could not be generated", error)]
     };
   }
 }
\ No newline at end of file
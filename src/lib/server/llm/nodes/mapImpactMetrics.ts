@@ -0,0 +1,115 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import type { AnalysisIssue, AnalysisState } from "../types";
+import { langfuseHandler } from "../langfuseIntegration";
+import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+import { METRICS, getMetric } from "$lib/metrics";
+import { normalizeScore } from "../scoring";
+
+// Number of impacts mapped per LLM call
+const IMPACTS_PER_BATCH = 15;
+
+// Define the output schema
+const outputSchema = z.object({
+  impacts: z.array(z.object({
+    statement: z.number().describe("Number of the statement"),
+    metrics: z.array(z.object({
+      metric: z.string().describe("Code of the metric, e.g. sdg_7"),
+      value: z.number().describe("Effect on the metric between -1.0 and +1.0"),
+    })).describe("Only the metrics the statement clearly affects"),
+  })),
+});
+
+const parser = StructuredOutputParser.fromZodSchema(outputSchema);
+
+promptRegistry.register("metrics", "1", `
+You are an expert in the UN's Sustainable Development Goals (SDGs) and Doughnut Economics.
+
+Task: For each impactStatement, list the metrics it clearly affects, with a value between -1.0 (strongly harms the goal, or pushes people below the social foundation / pressure beyond the ecological ceiling) and +1.0 (strongly advances the goal, or lifts people above the social foundation / relieves pressure on the ecological ceiling). Leave out metrics the statement doesn't affect; most statements affect only a few.
+
+Metrics (code: description):
+{metrics}
+
+Input impactStatements:
+{statements}
+
+{format_instructions}
+`);
+
+const metricList = METRICS.map((metric) => `${metric.name}: ${metric.label}`).join("\n");
+
+export async function mapImpactMetrics(state: AnalysisState): Promise<Partial<AnalysisState>> {
+  try {
+    const impacts = Object.values(state.groupedCategories).flat();
+    console.log("Mapping", impacts.length, "downstream impacts onto SDG and Doughnut metrics...");
+    const prompt = await promptRegistry.get("metrics", state.promptVersions);
+    const nodeModel = getNodeModel(state.profile, "metrics");
+
+    const batches: string[][] = [];
+    for (let index = 0; index < impacts.length; index += IMPACTS_PER_BATCH) {
+      batches.push(impacts.slice(index, index + IMPACTS_PER_BATCH));
+    }
+
+    const impactMetrics: { [key: string]: { [key: string]: number } } = {};
+    const issues: AnalysisIssue[] = [];
+
+    for (const batch of batches) {
+      try {
+        // Invoke with retry mechanism and fallback models
+        const result = await callWithRetry(
+          prompt,
+          parser,
+          {
+            metrics: metricList,
+            statements: batch.map((impact, index) => `${index + 1}. ${impact}`).join("\n"),
+            format_instructions: parser.getFormatInstructions()
+          },
+          {
+            model: nodeModel.model,
+            temperature: nodeModel.temperature,
+            callbacks: [langfuseHandler]
+          },
+          {
+            maxRetries: 3,
+            fallbackModels: nodeModel.fallbackModels
+          }
+        );
+
+        for (const item of result.impacts as z.infer<typeof outputSchema>["impacts"]) {
+          const impact = batch[item.statement - 1];
+          if (impact === undefined) {
+            continue;
+          }
+
+          impactMetrics[impact] = {};
+          for (const { metric, value } of item.metrics) {
+            // Drop metrics the model made up
+            if (getMetric(metric)) {
+              impactMetrics[impact][metric] = normalizeScore(value);
+            }
+          }
+        }
+      } catch (error) {
+        console.error("Error mapping metrics for", batch.length, "impacts:", error);
+        // These impacts just don't get metrics
+        issues.push(nodeIssue("metrics", "error", `The SDG and Doughnut metrics of ${batch.length} impacts are missing`, error));
+      }
+    }
+
+    console.log("Successfully mapped metrics for", Object.keys(impactMetrics).length, "impacts");
+
+    return {
+      impactMetrics,
+      issues
+    };
+  } catch (error) {
+    console.error("Error in mapImpactMetrics:", error);
+    return {
+      impactMetrics: {},
+      issues: [nodeIssue("metrics", "error", "The impacts could not be mapped onto the SDG and Doughnut metrics", error)]
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import type { AnalysisIssue, AnalysisState, ImpactStakeholder } from "../types";
+import { langfuseHandler } from "../langfuseIntegration";
+import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+import { stakeholderEffects } from "../../database/schema";
+
+// Number of impacts mapped per LLM call
+const IMPACTS_PER_BATCH = 15;
+
+// Define the output schema
+const outputSchema = z.object({
+  impacts: z.array(z.object({
+    statement: z.number().describe("Number of the statement"),
+    stakeholders: z.array(z.object({
+      group: z.string().describe("Name of the stakeholder group, e.g. Rural commuters"),
+      effect: z.enum(stakeholderEffects).describe("Direction of the effect on the group"),
+      description: z.string().describe("One sentence on how the group is affected"),
+    })).describe("The groups the statement clearly affects"),
+  })),
+});
+
+const parser = StructuredOutputParser.fromZodSchema(outputSchema);
+
+promptRegistry.register("stakeholders", "1", `
+You are an expert in stakeholder analysis for public policy and business decisions.
+
+Task: For each impactStatement, identify the stakeholder groups it affects (e.g. rural commuters, rail workers, the municipal budget, local businesses, future generations) and the direction of the effect on each group: positive, negative or mixed. Only list groups the statement clearly affects, usually one to four.
+
+Name the groups consistently, so the same group has the same name in every statement. Reuse these names of groups already identified for this proposal where they fit: {knownGroups}
+
+Input impactStatements:
+{statements}
+
+{format_instructions}
+`);
+
+export async function mapStakeholders(state: AnalysisState): Promise<Partial<AnalysisState>> {
+  try {
+    const impacts = Object.values(state.groupedCategories).flat();
+    console.log("Identifying the stakeholders of", impacts.length, "downstream impacts...");
+    const prompt = await promptRegistry.get("stakeholders", state.promptVersions, state.language);
+    const nodeModel = getNodeModel(state.profile, "stakeholders");
+
+    const batches: string[][] = [];
+    for (let index = 0; index < impacts.length; index += IMPACTS_PER_BATCH) {
+      batches.push(impacts.slice(index, index + IMPACTS_PER_BATCH));
+    }
+
+    const impactStakeholders: { [key: string]: ImpactStakeholder[] } = {};
+    // Lower-cased group name -> the name it was first given, so differently cased names end up as one group
+    const groupNames = new Map<string, string>();
+    const issues: AnalysisIssue[] = [];
+
+    for (const batch of batches) {
+      try {
+        // Invoke with retry mechanism and fallback models
+        const result = await callWithRetry(
+          prompt,
+          parser,
+          {
+            knownGroups: groupNames.size > 0 ? [...groupNames.values()].join(", ") : "(none yet)",
+            statements: batch.map((impact, index) => `${index + 1}. ${impact}`).join("\n"),
+            format_instructions: parser.getFormatInstructions()
+          },
+          {
+            model: nodeModel.model,
+            temperature: nodeModel.temperature,
+            callbacks: [langfuseHandler]
+          },
+          {
+            maxRetries: 3,
+            fallbackModels: nodeModel.fallbackModels
+          }
+        );
+
+        for (const item of result.impacts as z.infer<typeof outputSchema>["impacts"]) {
+          const impact = batch[item.statement - 1];
+          if (impact === undefined) {
+            continue;
+          }
+
+          const stakeholders = new Map<string, ImpactStakeholder>();
+          for (const { group, effect, description } of item.stakeholders) {
+            const key = group.trim().toLowerCase();
+            if (!key) {
+              continue;
+            }
+            if (!groupNames.has(key)) {
+              groupNames.set(key, group.trim());
+            }
+            stakeholders.set(key, { group: groupNames.get(key)!, effect, description });
+          }
+          impactStakeholders[impact] = [...stakeholders.values()];
+        }
+      } catch (error) {
+        console.error("Error identifying stakeholders for", batch.length, "impacts:", error);
+        // These impacts just don't get stakeholders
+        issues.push(nodeIssue("stakeholders", "error", `The stakeholders of ${batch.length} impacts are missing`, error));
+      }
+    }
+
+    console.log("Successfully identified", groupNames.size, "stakeholder groups of", Object.keys(impactStakeholders).length, "impacts");
+
+    return {
+      impactStakeholders,
+      issues
+    };
+  } catch (error) {
+    console.error("Error in mapStakeholders:", error);
+    return {
+      impactStakeholders: {},
+      issues: [nodeIssue("stakeholders", "error", "The stakeholders of the impacts could not be identified", error)]
+    };
+  }
+}
@@ -1,35 +1,109 @@
-import { PromptTemplate } from "@langchain/core/prompts";
+import type { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
-import { LLM_MODELS, type AnalysisState } from "../types";
+import type { AnalysisIssue, AnalysisState } from "../types";
 import { ChatOpenAI } from "@langchain/openai";
 import { langfuseHandler } from "../langfuseIntegration";
 import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getEvaluationEnsemble, getNodeModel, type NodeModelConfig } from "../profiles";
+import {
+  CombinedResearchProvider,
+  loadIdeaDocuments,
+  researchProvider,
+  type ResearchClaim,
+  type ResearchPassage,
+  type ResearchProvider
+} from "../research";
+import {
+  aggregateImpactScores,
+  combineScoreSamples,
+  normalizeLikelihood,
+  normalizeScore,
+  type ImpactEvaluation,
+  type ScoreUncertainty
+} from "../scoring";
+import { impactTimeHorizons } from "../../database/schema";
+import { mapWithConcurrency } from "../concurrency";
+
+// Number of passages retrieved per category
+const PASSAGES_PER_CATEGORY = 6;
+
+// Number of categories researched and evaluated at the same time (keep it low enough for the provider's rate limits)
+const EVALUATION_CONCURRENCY = Number(process.env.ANALYSIS_EVALUATION_CONCURRENCY) || 4;
+
+// Whether the category score discounts impacts by their likelihood and time horizon ("expected") or not ("equal")
+const IMPACT_WEIGHTING = process.env.ANALYSIS_IMPACT_WEIGHTING === "equal" ? "equal" : "expected";
 
 // Define the output schema
-const outputSchema = z.object({
-  researchSummary: z.string().describe("Research findings for the category"),
+const scoreSchema = z.object({
+  statement: z.number().describe("Number of the statement"),
   score: z.number().describe("Numerical score between -1.0 and +1.0"),
+  rationale: z.string().describe("One or two sentences explaining the score, referring to the research findings"),
+});
+const outputSchema = z.object({
+  impacts: z.array(scoreSchema.extend({
+    timeHorizon: z.enum(impactTimeHorizons).describe("When the impact would materialize: short (within 2 years), medium (2-10 years) or long term (beyond 10 years)"),
+    likelihood: z.number().describe("Probability between 0.0 and 1.0 that the impact materializes"),
+  })).describe("A score for every statement"),
+});
+// Version 1 of the evaluate prompt doesn't ask for the time horizon and likelihood
+const scoreOnlyOutputSchema = z.object({
+  impacts: z.array(scoreSchema).describe("A score for every statement"),
 });
 
 const parser = StructuredOutputParser.fromZodSchema(outputSchema);
+const scoreOnlyParser = StructuredOutputParser.fromZodSchema(scoreOnlyOutputSchema);
+
+const researchOutputSchema = z.object({
+  summary: z.string().describe("Research findings for the category, citing the claims by their number, e.g. [1]"),
+  claims: z.array(z.object({
+    claim: z.string().describe("A single, concrete factual claim"),
+    passage: z.number().describe("Number of the passage the claim is taken from"),
+    excerpt: z.string().describe("Verbatim quote from that passage supporting the claim"),
+    confidence: z.number().describe("Confidence between 0.0 and 1.0 that the claim holds for these statements"),
+    statements: z.array(z.number()).describe("Numbers of the statements the claim is evidence for"),
+  })).describe("The claims the research findings are based on, numbered in order starting at 1"),
+});
+
+const researchParser = StructuredOutputParser.fromZodSchema(researchOutputSchema);
+
+promptRegistry.register("research", "1", `
+You are a meticulous researcher. Given an impactCategory and its statements, summarize the concrete, numerical data in the retrieved passages that is relevant to them.
 
-// Create the prompt template with proper formatting
-const researchPrompt = PromptTemplate.fromTemplate(`
-You are a meticulous researcher. Given an impactCategory and its statements, use a search tool to find concrete, numerical data.
+Break the findings down into discrete claims. Every claim must be taken from one of the passages, with a verbatim excerpt of it. If the passages don't contain relevant data for a statement, say so in the summary instead of making up facts or numbers.
 
 ImpactCategory: {category}
-Statements: {statements}
-`.trim());
+Statements:
+{statements}
 
-const evaluationPrompt = PromptTemplate.fromTemplate(`
+Retrieved passages:
+{passages}
+
+{format_instructions}
+`);
+
+function numberLines(lines: string[]): string {
+  return lines.map((line, index) => `${index + 1}. ${line}`).join("\n");
+}
+
+function formatPassages(passages: ResearchPassage[]): string {
+  if (passages.length === 0) {
+    return "(no passages found)";
+  }
+  return passages.map((passage, index) => `[${index + 1}] ${passage.title}\n${passage.text}`).join("\n\n");
+}
+
+promptRegistry.register("evaluate", "1", `
 You are an impartial judge. Your judgment is based on the principles of Doughnut Economics and the UN's Sustainable Development Goals (SDGs).
 
 Research Findings: {research}
 ImpactCategory: {category}
-Statements: {statements}
+Statements:
+{statements}
 
-Analyze the research findings and assign a numerical score between -1.0 (highly negative) and +1.0 (highly positive) to the category.
+Analyze the research findings and assign each statement its own numerical score between -1.0 (highly negative) and +1.0 (highly positive), with a short rationale. Score every statement on its own merits; statements of the same category can have very different impacts.
 
 Scoring Criteria:
 - Positive Score: The impact measurably improves a social or environmental metric
@@ -37,72 +111,76 @@ Scoring Criteria:
 - The magnitude of the score should be proportional to the magnitude of the impact
 
 {format_instructions}
-`.trim());
+`);
+
+// Also estimates when every impact would materialize and how likely it is
+promptRegistry.register("evaluate", "2", `
+You are an impartial judge. Your judgment is based on the principles of Doughnut Economics and the UN's Sustainable Development Goals (SDGs).
+
+Research Findings: {research}
+ImpactCategory: {category}
+Statements:
+{statements}
+
+Analyze the research findings and assign each statement its own numerical score between -1.0 (highly negative) and +1.0 (highly positive), with a short rationale. Score every statement on its own merits; statements of the same category can have very different impacts.
+
+Scoring Criteria:
+- Positive Score: The impact measurably improves a social or environmental metric
+- Negative Score: The impact depletes a critical resource, harms a social foundation, or negatively affects an SDG
+- The magnitude of the score should be proportional to the magnitude of the impact, assuming it materializes
+
+Also estimate for every statement:
+- Time horizon: when the impact would materialize, short term (within 2 years), medium term (2-10 years) or long term (beyond 10 years)
+- Likelihood: the probability between 0.0 and 1.0 that it materializes at all. Near-certain direct effects are close to 1.0; speculative effects that depend on many other developments are low
+
+{format_instructions}
+`);
 
 export async function researchAndEvaluate(state: AnalysisState): Promise<Partial<AnalysisState>> {
   try {
     console.log("Researching and evaluating", Object.keys(state.groupedCategories).length, "categories...");
     
+    const evaluationPrompt = await promptRegistry.get("evaluate", state.promptVersions, state.language);
+    const evaluationParser = state.promptVersions?.evaluate === "1" ? scoreOnlyParser : parser;
+    // The idea's supporting documents are searched next to the configured research providers
+    const documents = await loadIdeaDocuments(state.ideaId);
+    const steps: CategorySteps = {
+      provider: documents ? new CombinedResearchProvider([documents, researchProvider]) : researchProvider,
+      research: {
+        prompt: await promptRegistry.get("research", state.promptVersions, state.language),
+        ...getNodeModel(state.profile, "research")
+      },
+      evaluations: getEvaluationEnsemble(state.profile).map((nodeModel) => ({ prompt: evaluationPrompt, parser: evaluationParser, ...nodeModel }))
+    };
+
+    const categories = Object.keys(state.groupedCategories);
+    const results = await mapWithConcurrency(categories, EVALUATION_CONCURRENCY, (category) =>
+      evaluateCategory(category, state.groupedCategories[category], steps)
+    );
+
     const researchFindings: { [key: string]: string } = {};
+    const researchPassages: { [key: string]: ResearchPassage[] } = {};
+    const researchClaims: { [key: string]: ResearchClaim[] } = {};
     const evaluatedScores: { [key: string]: number } = {};
-    
-    // For each category, generate research findings and evaluate scores
-    for (const category in state.groupedCategories) {
-      try {
-        console.log("Processing category:", category);
-        
-        // Generate research findings with retry mechanism
-        const researchResult = await callWithRetry(
-          researchPrompt,
-          null, // No parser for research step
-          {
-            category: category,
-            statements: state.groupedCategories[category].join("\n")
-          },
-          {
-            model: LLM_MODELS.CLAUDE_4_SONNET,
-            temperature: 0,
-            callbacks: [langfuseHandler]
-          },
-          {
-            maxRetries: 3,
-            fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET, LLM_MODELS.CLAUDE_3_HAIKU]
-          }
-        );
-        
-        researchFindings[category] = researchResult.content as string;
-        console.log("Successfully generated research findings for category:", category);
-        
-        // Evaluate scores based on research findings with retry mechanism
-        const evaluationResult = await callWithRetry(
-          evaluationPrompt,
-          parser, // Parser for evaluation step
-          {
-            research: researchFindings[category],
-            category: category,
-            statements: state.groupedCategories[category].join("\n"),
-            format_instructions: parser.getFormatInstructions()
-          },
-          {
-            model: LLM_MODELS.CLAUDE_3_HAIKU,
-            temperature: 0,
-            callbacks: [langfuseHandler]
-          },
-          {
-            maxRetries: 3,
-            fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET]
-          }
-        );
-        
-        evaluatedScores[category] = evaluationResult.score;
-        console.log("Successfully evaluated score for category:", category, "Score:", evaluationResult.score);
-      } catch (error) {
-        console.error("Error processing category:", category, error);
-        // Use default values on error
-        researchFindings[category] = `Error generating research findings for ${category}`;
-        evaluatedScores[category] = 0; // Neutral score on error
+    const scoreUncertainty: { [key: string]: ScoreUncertainty } = {};
+    const impactEvaluations: { [key: string]: ImpactEvaluation } = {};
+    const issues: AnalysisIssue[] = [];
+
+    categories.forEach((category, index) => {
+      const result = results[index];
+      researchFindings[category] = result.findings;
+      researchPassages[category] = result.passages;
+      researchClaims[category] = result.claims;
+      // A category whose evaluation failed has no score, rather than a neutral one that would count in the totals
+      if (result.score !== null) {
+        evaluatedScores[category] = result.score;
       }
-    }
+      if (result.uncertainty) {
+        scoreUncertainty[category] = result.uncertainty;
+      }
+      Object.assign(impactEvaluations, result.impactEvaluations);
+      issues.push(...result.issues);
+    });
     
     console.log("Successfully researched and evaluated all categories");
     console.debug("Research findings: ", researchFindings)
@@ -110,13 +188,249 @@ export async function researchAndEvaluate(state: AnalysisState): Promise<Partial
     
     return {
       researchFindings,
-      evaluatedScores
+      researchPassages,
+      researchClaims,
+      evaluatedScores,
+      scoreUncertainty,
+      impactEvaluations,
+      issues
     };
   } catch (error) {
     console.error("Error in researchAndEvaluate:", error);
     return {
       researchFindings: {},
-      evaluatedScores: {}
+      researchPassages: {},
+      researchClaims: {},
+      evaluatedScores: {},
+      scoreUncertainty: {},
+      impactEvaluations: {},
+      issues: [nodeIssue("evaluate", "error", "The impacts could not be researched and scored", error)]
     };
   }
-}
\ No newline at end of file
+}
+
+// The prompt and model of the research step and of every independent evaluation of this run
+type CategoryStep = NodeModelConfig & { prompt: PromptTemplate };
+type EvaluationStep = CategoryStep & { parser: typeof parser | typeof scoreOnlyParser };
+interface CategorySteps {
+  provider: ResearchProvider;
+  research: CategoryStep;
+  evaluations: EvaluationStep[];
+}
+
+interface CategoryEvaluation {
+  findings: string;
+  passages: ResearchPassage[];
+  claims: ResearchClaim[];
+  score: number | null;
+  uncertainty: ScoreUncertainty | null;
+  impactEvaluations: { [key: string]: ImpactEvaluation };
+  issues: AnalysisIssue[];
+}
+
+/**
+ * Researches a category and scores its impacts. Never throws, so one failing category doesn't affect the others.
+ */
+async function evaluateCategory(
+  category: string,
+  impacts: string[],
+  steps: CategorySteps
+): Promise<CategoryEvaluation> {
+  let passages: ResearchPassage[] = [];
+  try {
+    console.log("Processing category:", category);
+
+    // Retrieve the passages the research findings are based on
+    passages = await steps.provider.search([category, ...impacts].join("\n"), { limit: PASSAGES_PER_CATEGORY });
+    console.log("Retrieved", passages.length, "passages for category:", category);
+
+    // Generate research findings with retry mechanism
+    const researchResult = await callWithRetry(
+      steps.research.prompt,
+      researchParser,
+      {
+        category: category,
+        statements: numberLines(impacts),
+        passages: formatPassages(passages),
+        format_instructions: researchParser.getFormatInstructions()
+      },
+      {
+        model: steps.research.model,
+        temperature: steps.research.temperature,
+        callbacks: [langfuseHandler]
+      },
+      {
+        maxRetries: 3,
+        fallbackModels: steps.research.fallbackModels
+      }
+    );
+
+    const research = toResearchClaims(researchResult, passages, impacts);
+    console.log("Successfully generated research findings for category:", category);
+
+    // Evaluate scores based on research findings, independently with every model of the ensemble
+    const samples: { [key: string]: ImpactEvaluation }[] = [];
+    let evaluationError: unknown;
+    for (const evaluation of steps.evaluations) {
+      try {
+        samples.push(await evaluateImpacts(evaluation, category, impacts, research.summary));
+      } catch (error) {
+        console.error("Error evaluating category:", category, "with", evaluation.model, error);
+        evaluationError = error;
+      }
+    }
+    if (samples.length === 0) {
+      throw evaluationError;
+    }
+
+    const { mean: score, uncertainty } = combineScoreSamples(
+      samples.map((sample) => aggregateImpactScores(Object.values(sample), IMPACT_WEIGHTING))
+    );
+    const impactEvaluations = combineImpactEvaluations(samples);
+    console.log("Successfully evaluated", Object.keys(impactEvaluations).length, "impacts of category:", category, "Score:", score, "Uncertainty:", uncertainty);
+
+    const issues: AnalysisIssue[] = [];
+    const failedSamples = steps.evaluations.length - samples.length;
+    if (failedSamples > 0) {
+      issues.push(nodeIssue("evaluate", "warning", `${failedSamples} of ${steps.evaluations.length} evaluations of "${category}" failed, its uncertainty is based on the others`, evaluationError));
+    }
+    const unscored = impacts.length - Object.keys(impactEvaluations).length;
+    if (unscored > 0) {
+      issues.push(nodeIssue("evaluate", "warning", `${unscored} impacts of "${category}" were not scored individually and show the category score`));
+    }
+
+    return { findings: research.summary, passages, claims: research.claims, score, uncertainty, impactEvaluations, issues };
+  } catch (error) {
+    console.error("Error processing category:", category, error);
+    // Use default values on error, the issue explains what's missing
+    return {
+      findings: "",
+      passages,
+      claims: [],
+      score: null,
+      uncertainty: null,
+      impactEvaluations: {},
+      issues: [nodeIssue("evaluate", "error", `The research and scores of "${category}" are missing`, error)]
+    };
+  }
+}
+
+/**
+ * Scores the impacts of a category once. Statements the model skipped stay unscored and don't count towards the category score.
+ */
+async function evaluateImpacts(
+  evaluation: EvaluationStep,
+  category: string,
+  impacts: string[],
+  research: string
+): Promise<{ [key: string]: ImpactEvaluation }> {
+  // Invoke with retry mechanism and fallback models
+  const evaluationResult = await callWithRetry(
+    evaluation.prompt,
+    evaluation.parser,
+    {
+      research,
+      category: category,
+      statements: numberLines(impacts),
+      format_instructions: evaluation.parser.getFormatInstructions()
+    },
+    {
+      model: evaluation.model,
+      temperature: evaluation.temperature,
+      callbacks: [langfuseHandler]
+    },
+    {
+      maxRetries: 3,
+      fallbackModels: evaluation.fallbackModels
+    }
+  );
+
+  const impactEvaluations: { [key: string]: ImpactEvaluation } = {};
+  // The time horizon and likelihood are missing with the score-only parser
+  type EvaluatedImpact = z.infer<typeof scoreSchema> & Partial<z.infer<typeof outputSchema>["impacts"][number]>;
+  for (const item of evaluationResult.impacts as EvaluatedImpact[]) {
+    const impact = impacts[item.statement - 1];
+    if (impact !== undefined) {
+      impactEvaluations[impact] = {
+        score: normalizeScore(item.score),
+        rationale: item.rationale,
+        timeHorizon: item.timeHorizon,
+        likelihood: item.likelihood !== undefined ? normalizeLikelihood(item.likelihood) : undefined
+      };
+    }
+  }
+  return impactEvaluations;
+}
+
+/**
+ * Combines the evaluations of every impact by the ensemble: the mean of their scores and likelihoods,
+ * with the rationale and time horizon of the first evaluation that scored the impact.
+ */
+function combineImpactEvaluations(samples: { [key: string]: ImpactEvaluation }[]): { [key: string]: ImpactEvaluation } {
+  const evaluationsByImpact = new Map<string, ImpactEvaluation[]>();
+  for (const sample of samples) {
+    for (const [impact, evaluation] of Object.entries(sample)) {
+      evaluationsByImpact.set(impact, [...(evaluationsByImpact.get(impact) ?? []), evaluation]);
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const combined: { [key: string]: ImpactEvaluation } = {};
+  for (const [impact, evaluations] of evaluationsByImpact) {
+    const likelihoods = evaluations.map((evaluation) => evaluation.likelihood).filter((value): value is number => value !== undefined);
+    combined[impact] = {
+      ...evaluations[0],
+      score: normalizeScore(mean(evaluations.map((evaluation) => evaluation.score))),
+      likelihood: likelihoods.length > 0 ? normalizeLikelihood(mean(likelihoods)) : undefined
+    };
+  }
+  return combined;
+}
+
+/**
+ * Resolves the passage and statement numbers of the research output, dropping claims that don't
+ * cite a retrieved passage. The claim references in the summary are renumbered accordingly.
+ */
+function toResearchClaims(
+  output: z.infer<typeof researchOutputSchema>,
+  passages: ResearchPassage[],
+  statements: string[]
+): { summary: string; claims: ResearchClaim[] } {
+  const claims: ResearchClaim[] = [];
+  const claimNumbers = new Map<number, number>();
+
+  output.claims.forEach((item, index) => {
+    const passage = passages[item.passage - 1];
+    if (!passage) {
+      console.warn("Dropping claim without a retrieved source:", item.claim);
+      return;
+    }
+
+    // Quotes that can't be found in the passage make the claim less trustworthy
+    const excerptFound = normalizeText(passage.text).includes(normalizeText(item.excerpt));
+    const confidence = Math.min(Math.max(item.confidence, 0), excerptFound ? 1 : 0.5);
+
+    claims.push({
+      claim: item.claim,
+      sourceType: passage.sourceType,
+      sourceTitle: passage.title,
+      sourceUrl: passage.url,
+      passageId: passage.id,
+      excerpt: item.excerpt,
+      confidence,
+      impacts: item.statements.map((number) => statements[number - 1]).filter((impact) => impact !== undefined),
+    });
+    claimNumbers.set(index + 1, claims.length);
+  });
+
+  const summary = output.summary.replace(/\[(\d+)\]/g, (_reference, number) => {
+    const claimNumber = claimNumbers.get(Number(number));
+    return claimNumber ? `[${claimNumber}]` : "";
+  });
+
+  return { summary, claims };
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
@@ -1,10 +1,18 @@
-import { PromptTemplate } from "@langchain/core/prompts";
 import { StructuredOutputParser } from "@langchain/core/output_parsers";
 import { z } from "zod";
-import { LLM_MODELS, type AnalysisState } from "../types";
+import type { AnalysisState } from "../types";
 import { ChatOpenAI } from "@langchain/openai";
 import { langfuseHandler } from "../langfuseIntegration";
 import { callWithRetry } from "../retryUtils";
+import { promptRegistry } from "../prompts";
+import { nodeIssue } from "../issues";
+import { getNodeModel } from "../profiles";
+import { computeRecommendation, describeRecommendation, DEFAULT_RECOMMENDATION_THRESHOLD } from "$lib/recommendation";
+
+// Configuration of the recommendation rule: the factor the positive total must exceed the negative total by,
+// and whether every category counts the same ("category") or by its number of impacts ("impacts")
+const RECOMMENDATION_THRESHOLD = Number(process.env.ANALYSIS_RECOMMENDATION_THRESHOLD) || DEFAULT_RECOMMENDATION_THRESHOLD;
+const RECOMMENDATION_WEIGHTING = process.env.ANALYSIS_RECOMMENDATION_WEIGHTING === "impacts" ? "impacts" : "category";
 
 // Define the output schema
 const outputSchema = z.object({
@@ -13,8 +21,7 @@ const outputSchema = z.object({
 
 const parser = StructuredOutputParser.fromZodSchema(outputSchema);
 
-// Create the prompt template with proper formatting
-const prompt = PromptTemplate.fromTemplate(`
+promptRegistry.register("summarize", "1", `
 You are a senior analyst and advisor. Your goal is to provide a clear, concise, and professional summary.
 
 Combine the original proposal, the evaluatedScores, and the researchFindings to generate a final summary and recommendation.
@@ -22,21 +29,55 @@ Combine the original proposal, the evaluatedScores, and the researchFindings to
 Summary Structure:
 1. A brief, one-sentence overview of the proposal's overall impact.
 2. A point-by-point breakdown of each category's score and the justification from the research.
-3. A final, explicit recommendation.
+3. A final, explicit recommendation, which must be the recommendation given below.
+
+The recommendation has already been computed by the system's hard rule: a negative impact is only considered "acceptable" if the total positive score is at least {threshold} times the absolute value of the total negative score. Don't recalculate it; explain it with the scores and findings.
 
-Recommendation Logic: The system has a hard rule: a negative impact is only considered "acceptable" if the total positive score is at least 10 times the absolute value of the total negative score. If this condition is not met, the recommendation is to **not** proceed with the proposal as-is.
+Recommendation: {recommendation}
 
 Original Proposal: {proposal}
 Category Scores: {scores}
 Research Findings: {findings}
 
 {format_instructions}
-`.trim());
+`);
+
+/**
+ * Lists the research findings per category with the claims they are based on and their sources.
+ */
+function formatFindings(state: AnalysisState): string {
+  return Object.entries(state.researchFindings)
+    .map(([category, findings]) => {
+      const claims = (state.researchClaims?.[category] ?? []).map(
+        (claim, index) =>
+          `  [${index + 1}] ${claim.claim} (source: ${claim.sourceTitle}, confidence: ${claim.confidence.toFixed(2)})`
+      );
+      return [`### ${category}`, findings, ...(claims.length > 0 ? ["Evidence:", ...claims] : [])].join("\n");
+    })
+    .join("\n\n");
+}
 
 export async function summarizeFindings(state: AnalysisState): Promise<Partial<AnalysisState>> {
+  // Computed in code, so the recommendation holds even if the summary can't be generated
+  let recommendation = computeRecommendation(state.evaluatedScores, {
+    threshold: RECOMMENDATION_THRESHOLD,
+    weights:
+      RECOMMENDATION_WEIGHTING === "impacts"
+        ? Object.fromEntries(
+            Object.entries(state.groupedCategories).map(([category, impacts]) => [category, impacts.length])
+          )
+        : undefined
+  });
+  // The total leaves out categories whose evaluation failed, so it can't support proceeding
+  if ((state.issues ?? []).some((issue) => issue.node === "evaluate" && issue.severity === "error")) {
+    recommendation = { ...recommendation, proceed: false, insufficientData: true };
+  }
+
   try {
-    console.log("Summarizing findings...");
-    
+    console.log("Summarizing findings...", "Recommendation:", recommendation);
+    const prompt = await promptRegistry.get("summarize", state.promptVersions, state.language);
+    const nodeModel = getNodeModel(state.profile, "summarize");
+
     // Invoke with retry mechanism and fallback models
     const result = await callWithRetry(
       prompt,
@@ -44,29 +85,34 @@ export async function summarizeFindings(state: AnalysisState): Promise<Partial<A
       {
         proposal: state.proposal,
         scores: JSON.stringify(state.evaluatedScores),
-        findings: JSON.stringify(state.researchFindings),
+        findings: formatFindings(state),
+        threshold: recommendation.threshold,
+        recommendation: describeRecommendation(recommendation),
         format_instructions: parser.getFormatInstructions()
       },
       {
-        model: LLM_MODELS.CLAUDE_3_HAIKU,
-        temperature: 0,
+        model: nodeModel.model,
+        temperature: nodeModel.temperature,
         callbacks: [langfuseHandler]
       },
       {
         maxRetries: 3,
-        fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET]
+        fallbackModels: nodeModel.fallbackModels
       }
     );
     
     console.log("Successfully generated summary");
     console.debug("Summary: ", result.summary);
     return {
+      recommendation,
       finalSummary: result.summary
     };
   } catch (error) {
     console.error("Error in summarizeFindings:", error);
     return {
-      finalSummary: "Error generating summary."
+      recommendation,
+      finalSummary: "",
+      issues: [nodeIssue("summarize", "error", "The summary could not be generated", error)]
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { LLM_MODELS, type LLMModel } from "./types";
+import type { AnalysisProfileName } from "../database/schema";
+
+/**
+ * The workflow steps that call an LLM (the same names as their prompts), and the translation of their results.
+ */
+export type ProfileNode = "extract" | "downstream" | "expand" | "dedupe" | "categorize" | "research" | "evaluate" | "critique" | "metrics" | "stakeholders" | "summarize" | "translate";
+
+export interface NodeModelConfig {
+  model: LLMModel;
+  temperature: number;
+  fallbackModels: LLMModel[];
+}
+
+/**
+ * An analysis profile trades cost for thoroughness: the models of every step and how deep impacts are expanded.
+ */
+export interface AnalysisProfile {
+  // Override the defaults of the expansion loop (see expandDownstreamImpacts)
+  maxImpactDepth?: number;
+  expansionBudget?: number;
+  nodes: Record<ProfileNode, NodeModelConfig>;
+  // Independent evaluations of every category; their spread is the uncertainty of the score (default: the evaluate model once)
+  evaluationEnsemble?: NodeModelConfig[];
+}
+
+export const DEFAULT_ANALYSIS_PROFILE: AnalysisProfileName = "standard";
+
+// Number of evaluations per category for every profile, overriding the profiles' ensembles (unset: as defined by the profile)
+const EVALUATION_SAMPLES = Number(process.env.ANALYSIS_EVALUATION_SAMPLES) || 0;
+
+// Sampling temperature of repeated evaluations with the same model, so they can differ
+const ENSEMBLE_TEMPERATURE = 0.7;
+
+const haiku = (temperature: number): NodeModelConfig => ({
+  model: LLM_MODELS.CLAUDE_3_HAIKU,
+  temperature,
+  fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET]
+});
+
+const sonnet = (temperature: number): NodeModelConfig => ({
+  model: LLM_MODELS.CLAUDE_4_SONNET,
+  temperature,
+  fallbackModels: [LLM_MODELS.CLAUDE_3_7_SONNET, LLM_MODELS.CLAUDE_3_HAIKU]
+});
+
+export const ANALYSIS_PROFILES: Record<AnalysisProfileName, AnalysisProfile> = {
+  // Cheap: the fast model everywhere and only first-order impacts
+  quick: {
+    maxImpactDepth: 1,
+    nodes: {
+      extract: haiku(0),
+      downstream: haiku(0.7),
+      expand: haiku(0.7),
+      dedupe: haiku(0),
+      categorize: haiku(0),
+      research: haiku(0),
+      evaluate: haiku(0),
+      critique: haiku(0.3),
+      metrics: haiku(0),
+      stakeholders: haiku(0),
+      summarize: haiku(0),
+      translate: haiku(0)
+    }
+  },
+  standard: {
+    nodes: {
+      extract: haiku(0),
+      downstream: haiku(0.7),
+      expand: haiku(0.7),
+      dedupe: haiku(0),
+      categorize: haiku(0),
+      research: sonnet(0),
+      evaluate: haiku(0),
+      critique: haiku(0.3),
+      metrics: haiku(0),
+      stakeholders: haiku(0),
+      summarize: haiku(0),
+      translate: haiku(0)
+    }
+  },
+  // Thorough: the strongest models for the judgment-heavy steps and a deeper, wider expansion
+  deep: {
+    maxImpactDepth: 4,
+    expansionBudget: 20,
+    nodes: {
+      extract: sonnet(0),
+      downstream: sonnet(0.7),
+      expand: haiku(0.7),
+      dedupe: haiku(0),
+      categorize: sonnet(0),
+      research: {
+        model: LLM_MODELS.CLAUDE_4_OPUS,
+        temperature: 0,
+        fallbackModels: [LLM_MODELS.CLAUDE_4_SONNET, LLM_MODELS.CLAUDE_3_7_SONNET]
+      },
+      evaluate: sonnet(0),
+      critique: sonnet(0.3),
+      metrics: sonnet(0),
+      stakeholders: sonnet(0),
+      summarize: sonnet(0),
+      translate: sonnet(0)
+    },
+    evaluationEnsemble: [sonnet(ENSEMBLE_TEMPERATURE), sonnet(ENSEMBLE_TEMPERATURE), haiku(ENSEMBLE_TEMPERATURE)]
+  }
+};
+
+export function isAnalysisProfileName(value: unknown): value is AnalysisProfileName {
+  return typeof value === "string" && Object.hasOwn(ANALYSIS_PROFILES, value);
+}
+
+/**
+ * The model configuration of a workflow step. Runs from before profiles existed use the standard profile.
+ */
+export function getNodeModel(profile: AnalysisProfileName | null | undefined, node: ProfileNode): NodeModelConfig {
+  return ANALYSIS_PROFILES[profile ?? DEFAULT_ANALYSIS_PROFILE].nodes[node];
+}
+
+/**
+ * The model configurations of the independent evaluations of every category, at least one.
+ */
+export function getEvaluationEnsemble(profile: AnalysisProfileName | null | undefined): NodeModelConfig[] {
+  const evaluate = getNodeModel(profile, "evaluate");
+  if (EVALUATION_SAMPLES > 0) {
+    if (EVALUATION_SAMPLES === 1) {
+      return [evaluate];
+    }
+    return Array.from({ length: EVALUATION_SAMPLES }, () => ({
+      ...evaluate,
+      temperature: Math.max(evaluate.temperature, ENSEMBLE_TEMPERATURE)
+    }));
+  }
+  return ANALYSIS_PROFILES[profile ?? DEFAULT_ANALYSIS_PROFILE].evaluationEnsemble ?? [evaluate];
+}
@@ -0,0 +1,108 @@
+import { EventEmitter } from "events";
+import type { AnalysisState } from "./types";
+import type { AnalysisJobStatus } from "../database/schema";
+
+export type AnalysisProgressPayload =
+  | { type: "status"; status: AnalysisJobStatus; error?: string | null }
+  | { type: "node_started"; node: string }
+  | { type: "node_completed"; node: string; output: Partial<AnalysisState> }
+  | { type: "node_failed"; node: string; error: string };
+
+export type AnalysisProgressEvent = AnalysisProgressPayload & { analysisId: string; timestamp: string };
+
+// How long the event history of a finished analysis is kept for late subscribers
+const HISTORY_RETENTION_MS = 5 * 60 * 1000;
+
+/**
+ * In-process pub/sub for analysis progress. The workflow and the job service publish
+ * events, the SSE endpoint forwards them to the browser.
+ */
+class AnalysisProgressEmitter {
+  private emitter = new EventEmitter();
+  private history = new Map<string, AnalysisProgressEvent[]>();
+  private cleanupTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor() {
+    // One listener per open browser connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  emit(analysisId: string, payload: AnalysisProgressPayload): void {
+    const event: AnalysisProgressEvent = { ...payload, analysisId, timestamp: new Date().toISOString() };
+
+    if (event.type === "status" && event.status === "queued") {
+      // A new attempt starts with a fresh history
+      this.clearHistory(analysisId);
+    }
+    if (!this.history.has(analysisId)) {
+      this.history.set(analysisId, []);
+    }
+    this.history.get(analysisId)!.push(event);
+
+    if (event.type === "status" && (event.status === "succeeded" || event.status === "failed")) {
+      const timer = setTimeout(() => this.clearHistory(analysisId), HISTORY_RETENTION_MS);
+      timer.unref?.();
+      this.cleanupTimers.set(analysisId, timer);
+    }
+
+    this.emitter.emit(analysisId, event);
+  }
+
+  /**
+   * Events emitted so far for an analysis (empty if it ran in another process or long ago).
+   */
+  getHistory(analysisId: string): AnalysisProgressEvent[] {
+    return [...(this.history.get(analysisId) ?? [])];
+  }
+
+  private clearHistory(analysisId: string): void {
+    clearTimeout(this.cleanupTimers.get(analysisId));
+    this.cleanupTimers.delete(analysisId);
+    this.history.delete(analysisId);
+  }
+
+  /**
+   * Listen to the progress of an analysis.
+   * @returns A function that removes the listener
+   */
+  subscribe(analysisId: string, listener: (event: AnalysisProgressEvent) => void): () => void {
+    this.emitter.on(analysisId, listener);
+    return () => this.emitter.off(analysisId, listener);
+  }
+}
+
+export const analysisProgress = new AnalysisProgressEmitter();
+
+/**
+ * Wraps a workflow node so it reports when it starts, completes (with its partial results) or fails.
+ * The nodes record their errors as issues instead of throwing, a node that returns an error failed as well.
+ */
+export function withProgress(
+  node: string,
+  fn: (state: AnalysisState) => Promise<Partial<AnalysisState>>
+): (state: AnalysisState) => Promise<Partial<AnalysisState>> {
+  return async (state: AnalysisState) => {
+    analysisProgress.emit(state.analysisId, { type: "node_started", node });
+    try {
+      const output = await fn(state);
+      const errors = (output.issues ?? []).filter((issue) => issue.severity === "error");
+      if (errors.length > 0) {
+        analysisProgress.emit(state.analysisId, {
+          type: "node_failed",
+          node,
+          error: errors.map((issue) => issue.message).join("; "),
+        });
+      } else {
+        analysisProgress.emit(state.analysisId, { type: "node_completed", node, output });
+      }
+      return output;
+    } catch (error) {
+      analysisProgress.emit(state.analysisId, {
+        type: "node_failed",
+        node,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw error;
+    }
+  };
+}
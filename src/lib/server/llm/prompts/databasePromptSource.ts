@@ -0,0 +1,20 @@
+import type { IPromptVersionRepository } from "../../database/interfaces";
+import type { PromptSource } from "./types";
+
+/**
+ * Loads prompt versions stored in the prompt_versions table, so prompts can be changed without a deploy.
+ */
+export class DatabasePromptSource implements PromptSource {
+  readonly name = "database";
+
+  constructor(private promptVersionRepository: IPromptVersionRepository) {}
+
+  async listVersions(): Promise<{ name: string; version: string }[]> {
+    return await this.promptVersionRepository.listVersions();
+  }
+
+  async load(name: string, version: string): Promise<string | null> {
+    const stored = await this.promptVersionRepository.getByNameAndVersion(name, version);
+    return stored?.template ?? null;
+  }
+}
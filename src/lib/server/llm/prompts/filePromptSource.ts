@@ -0,0 +1,41 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import type { PromptSource } from "./types";
+
+const TEMPLATE_EXTENSION = /\.(txt|md)$/i;
+
+/**
+ * Loads prompt versions from a directory with a subdirectory per prompt and a file per version,
+ * e.g. `prompts/summarize/2.txt` is version "2" of the summarize prompt.
+ */
+export class FilePromptSource implements PromptSource {
+  readonly name = "file";
+
+  constructor(private promptDir: string) {}
+
+  async listVersions(): Promise<{ name: string; version: string }[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.promptDir, { recursive: true });
+    } catch {
+      // No prompt directory, only the built-in and stored versions are used
+      return [];
+    }
+
+    return files
+      .map((file) => file.split(path.sep))
+      .filter((parts) => parts.length === 2 && TEMPLATE_EXTENSION.test(parts[1]))
+      .map(([name, file]) => ({ name, version: file.replace(TEMPLATE_EXTENSION, "") }));
+  }
+
+  async load(name: string, version: string): Promise<string | null> {
+    for (const extension of [".txt", ".md"]) {
+      try {
+        return await readFile(path.join(this.promptDir, name, `${version}${extension}`), "utf-8");
+      } catch {
+        // Try the next extension
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PromptRegistry, parsePromptSelection } from './index';
+
+// The registries below only use their built-in versions
+vi.mock('$lib/server/database/supabase', () => ({
+	createRepositories: () => ({
+		promptVersions: { listVersions: async () => [], getByNameAndVersion: async () => null }
+	})
+}));
+
+function createRegistry(selection = {}) {
+	const registry = new PromptRegistry([], selection);
+	registry.register('summarize', '1', 'Summarize {proposal}');
+	registry.register('summarize', '2', 'Summarize briefly {proposal}');
+	registry.register('evaluate', '1', 'Evaluate {category}');
+	registry.register('evaluate', '2', 'Evaluate carefully {category}');
+	registry.register('evaluate', '10', 'Evaluate again {category}');
+	return registry;
+}
+
+describe('parsePromptSelection', () => {
+	it('parses pinned and A/B tested versions', () => {
+		expect(parsePromptSelection('summarize=2, evaluate=1|2')).toEqual({
+			summarize: ['2'],
+			evaluate: ['1', '2']
+		});
+	});
+
+	it('skips empty and malformed entries', () => {
+		expect(parsePromptSelection(undefined)).toEqual({});
+		expect(parsePromptSelection('summarize=,=2,evaluate,extract=3|')).toEqual({ extract: ['3'] });
+	});
+});
+
+describe('PromptRegistry.resolveVersions', () => {
+	it('uses the latest version of unselected prompts', async () => {
+		expect(await createRegistry().resolveVersions('analysis-1')).toEqual({ summarize: '2', evaluate: '10' });
+	});
+
+	it('uses the pinned version', async () => {
+		const versions = await createRegistry({ summarize: ['1'] }).resolveVersions('analysis-1');
+
+		expect(versions.summarize).toBe('1');
+	});
+
+	it('splits analyses between the A/B tested versions, always the same way for the same analysis', async () => {
+		const registry = createRegistry({ evaluate: ['1', '2'] });
+		const analysisIds = Array.from({ length: 40 }, (_, index) => `analysis-${index}`);
+
+		const first = await Promise.all(analysisIds.map(async (id) => (await registry.resolveVersions(id)).evaluate));
+		const second = await Promise.all(analysisIds.map(async (id) => (await registry.resolveVersions(id)).evaluate));
+
+		expect(second).toEqual(first);
+		expect(new Set(first)).toEqual(new Set(['1', '2']));
+	});
+
+	it('rejects unknown selected versions', async () => {
+		await expect(createRegistry({ evaluate: ['1', '3'] }).resolveVersions('analysis-1')).rejects.toThrow(
+			'Unknown version(s) 3 of prompt "evaluate"'
+		);
+	});
+});
@@ -0,0 +1,173 @@
+import path from "path";
+import { createHash } from "crypto";
+import { PromptTemplate } from "@langchain/core/prompts";
+import { createRepositories } from "../../database/supabase";
+import { FilePromptSource } from "./filePromptSource";
+import { DatabasePromptSource } from "./databasePromptSource";
+import { languageInstruction } from "../language";
+import type { PromptSource, PromptVersions } from "./types";
+import type { AnalysisLanguage } from "../../database/schema";
+
+export type { PromptSource, PromptVersions } from "./types";
+export { FilePromptSource } from "./filePromptSource";
+export { DatabasePromptSource } from "./databasePromptSource";
+
+/**
+ * Prompt name -> the versions to use: one version pins the prompt, several are A/B tested.
+ */
+export type PromptSelection = { [name: string]: string[] };
+
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+/**
+ * Parses a selection like "summarize=2,evaluate=1|2" (pin summarize to version 2, A/B test versions 1 and 2 of evaluate).
+ */
+export function parsePromptSelection(value: string | undefined): PromptSelection {
+  const selection: PromptSelection = {};
+  for (const entry of (value || "").split(",")) {
+    const [name, versions] = entry.split("=").map((part) => part.trim());
+    if (name && versions) {
+      selection[name] = versions.split("|").map((version) => version.trim()).filter(Boolean);
+    }
+  }
+  return selection;
+}
+
+/**
+ * Named, versioned prompt templates of the workflow nodes. Every node registers its built-in version;
+ * further versions are loaded from the sources (files, database). Which version a run uses is decided
+ * once when the run starts (see resolveVersions) and recorded with it.
+ */
+export class PromptRegistry {
+  private builtIn = new Map<string, Map<string, string>>();
+  // Versions don't change once created, so their templates are cached
+  private templates = new Map<string, PromptTemplate>();
+
+  constructor(private sources: PromptSource[], private selection: PromptSelection = {}) {}
+
+  /**
+   * Registers a built-in version of a prompt, called by the nodes when their module loads.
+   * Other versions of the same prompt come from the sources.
+   */
+  register(name: string, version: string, template: string): void {
+    if (!this.builtIn.has(name)) {
+      this.builtIn.set(name, new Map());
+    }
+    this.builtIn.get(name)!.set(version, template);
+  }
+
+  /**
+   * All known versions of every prompt, oldest first. A failing source is skipped.
+   */
+  async listVersions(): Promise<{ [name: string]: string[] }> {
+    const versions = new Map<string, Set<string>>();
+    const add = (name: string, version: string) => {
+      if (!versions.has(name)) {
+        versions.set(name, new Set());
+      }
+      versions.get(name)!.add(version);
+    };
+
+    for (const [name, templates] of this.builtIn) {
+      templates.forEach((_template, version) => add(name, version));
+    }
+    for (const source of this.sources) {
+      try {
+        (await source.listVersions()).forEach(({ name, version }) => add(name, version));
+      } catch (error) {
+        console.warn(`Prompt source "${source.name}" could not be listed:`, error);
+      }
+    }
+
+    return Object.fromEntries(
+      [...versions].map(([name, nameVersions]) => [name, [...nameVersions].sort(compareVersions)])
+    );
+  }
+
+  /**
+   * Decides which version of every prompt an analysis run uses: the pinned version, one of the A/B tested
+   * versions (always the same one for the same analysis) or else the latest version.
+   */
+  async resolveVersions(analysisId: string): Promise<PromptVersions> {
+    const available = await this.listVersions();
+    const resolved: PromptVersions = {};
+
+    for (const [name, versions] of Object.entries(available)) {
+      const selected = this.selection[name];
+      if (!selected || selected.length === 0) {
+        resolved[name] = versions[versions.length - 1];
+        continue;
+      }
+
+      const unknown = selected.filter((version) => !versions.includes(version));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown version(s) ${unknown.join(", ")} of prompt "${name}" selected in PROMPT_VERSIONS`);
+      }
+      const hash = createHash("sha256").update(`${analysisId}:${name}`).digest();
+      resolved[name] = selected[hash.readUInt32BE(0) % selected.length];
+    }
+
+    return resolved;
+  }
+
+  /**
+   * The template of a prompt in the version of the run, or the latest version if the run has none recorded.
+   * For a language other than English the template asks for the results in that language (see ../language).
+   */
+  async get(name: string, versions?: PromptVersions | null, language?: AnalysisLanguage | null): Promise<PromptTemplate> {
+    const version = versions?.[name] ?? (await this.listVersions())[name]?.at(-1);
+    if (!version) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const key = `${name}@${version}`;
+    const templateKey = language && language !== "en" ? `${key}:${language}` : key;
+    let template = this.templates.get(templateKey);
+    if (!template) {
+      const text = await this.load(name, version);
+      if (text === null) {
+        throw new Error(`Unknown prompt version: ${key}`);
+      }
+      template = PromptTemplate.fromTemplate(text.trim() + languageInstruction(language));
+      this.templates.set(templateKey, template);
+    }
+    return template;
+  }
+
+  private async load(name: string, version: string): Promise<string | null> {
+    const builtIn = this.builtIn.get(name)?.get(version);
+    if (builtIn !== undefined) {
+      return builtIn;
+    }
+
+    for (const source of this.sources) {
+      try {
+        const text = await source.load(name, version);
+        if (text !== null) {
+          return text;
+        }
+      } catch (error) {
+        console.warn(`Prompt source "${source.name}" failed to load ${name}@${version}:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Creates the prompt registry with the prompt versions in PROMPT_DIR (by default ./prompts) and the database,
+ * and the pinned and A/B tested versions of PROMPT_VERSIONS.
+ */
+export function createPromptRegistry(): PromptRegistry {
+  return new PromptRegistry(
+    [
+      new FilePromptSource(process.env.PROMPT_DIR || path.resolve("prompts")),
+      new DatabasePromptSource(createRepositories().promptVersions)
+    ],
+    parsePromptSelection(process.env.PROMPT_VERSIONS)
+  );
+}
+
+export const promptRegistry = createPromptRegistry();
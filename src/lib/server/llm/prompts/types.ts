@@ -0,0 +1,14 @@
+/**
+ * The version of every prompt an analysis run uses (prompt name -> version), recorded with the run.
+ */
+export type PromptVersions = { [name: string]: string };
+
+/**
+ * A place prompt versions are loaded from, in addition to the versions built into the workflow nodes.
+ */
+export interface PromptSource {
+  readonly name: string;
+  listVersions(): Promise<{ name: string; version: string }[]>;
+  // The template of a prompt version, or null if this source doesn't have it
+  load(name: string, version: string): Promise<string | null>;
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { ModelProviderRegistry, parseProviderConfig } from './index';
+
+const registry = new ModelProviderRegistry(
+	parseProviderConfig('{"ollama": {"baseURL": "http://localhost:11434/v1", "models": ["llama3.1:8b"]}}')
+);
+
+describe('ModelProviderRegistry', () => {
+	it('routes hosted models by their name prefix', () => {
+		expect(registry.resolve('claude-3-5-haiku-latest').provider.name).toBe('anthropic');
+		expect(registry.resolve('gpt-4o').provider.name).toBe('openai');
+		expect(registry.resolve('gemini-pro').provider.name).toBe('google');
+	});
+
+	it('routes the models configured for an OpenAI-compatible provider', () => {
+		expect(registry.resolve('llama3.1:8b')).toMatchObject({ provider: { name: 'ollama' }, model: 'llama3.1:8b' });
+	});
+
+	it('routes models addressed with their provider', () => {
+		expect(registry.resolve('ollama/qwen2.5:14b')).toMatchObject({ provider: { name: 'ollama' }, model: 'qwen2.5:14b' });
+	});
+
+	it('keeps slashes of model names that are not a provider', () => {
+		expect(() => registry.resolve('meta-llama/Llama-3-8B')).toThrow('Unsupported LLM model: meta-llama/Llama-3-8B');
+	});
+});
+
+describe('parseProviderConfig', () => {
+	it('requires a base URL', () => {
+		expect(() => parseProviderConfig('{"vllm": {}}')).toThrow('LLM provider "vllm" has no baseURL');
+	});
+});
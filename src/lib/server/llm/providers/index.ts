@@ -0,0 +1,109 @@
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { OpenAICompatibleProvider } from "./openAICompatibleProvider";
+import type { ModelOptions, ModelProvider, OpenAICompatibleProviderConfig } from "./types";
+
+export type { ModelOptions, ModelProvider, OpenAICompatibleProviderConfig } from "./types";
+export { OpenAICompatibleProvider } from "./openAICompatibleProvider";
+
+/**
+ * A hosted provider serving the models whose names start with its prefix.
+ */
+class PrefixModelProvider implements ModelProvider {
+  constructor(
+    readonly name: string,
+    private prefix: string,
+    private create: (model: string, options: ModelOptions) => BaseChatModel
+  ) {}
+
+  supports(model: string): boolean {
+    return model.toLowerCase().startsWith(this.prefix);
+  }
+
+  createModel(model: string, options: ModelOptions): BaseChatModel {
+    return this.create(model, options);
+  }
+}
+
+export const BUILT_IN_PROVIDERS: ModelProvider[] = [
+  new PrefixModelProvider("openai", "gpt", (model, { temperature, timeout }) =>
+    new ChatOpenAI({ model, temperature, timeout })
+  ),
+  // Anthropic and Google models handle the timeout at the call level, see callWithRetry
+  new PrefixModelProvider("anthropic", "claude", (model, { temperature }) =>
+    new ChatAnthropic({ model, temperature })
+  ),
+  new PrefixModelProvider("google", "gemini", (model, { temperature }) =>
+    new ChatGoogleGenerativeAI({ model, temperature })
+  ),
+];
+
+/**
+ * Decides which provider serves a model: the one it's addressed with ("ollama/llama3.1:8b"), else the
+ * first provider supporting it. Configured providers come before the built-in ones, so they can take
+ * over a model name.
+ */
+export class ModelProviderRegistry {
+  private providers: ModelProvider[];
+
+  /**
+   * @param override A model every call uses instead of the configured ones, e.g. to keep proposals on a self-hosted model
+   */
+  constructor(providers: ModelProvider[], readonly override: string | null = null) {
+    this.providers = [...providers, ...BUILT_IN_PROVIDERS];
+  }
+
+  resolve(model: string): { provider: ModelProvider; model: string } {
+    const separator = model.indexOf("/");
+    if (separator > 0) {
+      const provider = this.providers.find((candidate) => candidate.name === model.slice(0, separator));
+      if (provider) {
+        return { provider, model: model.slice(separator + 1) };
+      }
+    }
+
+    const provider = this.providers.find((candidate) => candidate.supports(model));
+    if (!provider) {
+      throw new Error(`Unsupported LLM model: ${model}`);
+    }
+    return { provider, model };
+  }
+
+  createModel(model: string, options: ModelOptions): BaseChatModel {
+    const resolved = this.resolve(model);
+    return resolved.provider.createModel(resolved.model, options);
+  }
+}
+
+/**
+ * Parses the OpenAI-compatible providers of LLM_PROVIDERS, a JSON object like
+ * {"ollama": {"baseURL": "http://localhost:11434/v1", "models": ["llama3.1:8b"]}}.
+ */
+export function parseProviderConfig(value: string | undefined): ModelProvider[] {
+  if (!value) {
+    return [];
+  }
+
+  const config = JSON.parse(value) as { [name: string]: OpenAICompatibleProviderConfig };
+  return Object.entries(config).map(([name, providerConfig]) => {
+    if (!providerConfig?.baseURL) {
+      throw new Error(`LLM provider "${name}" has no baseURL`);
+    }
+    return new OpenAICompatibleProvider(name, providerConfig);
+  });
+}
+
+/**
+ * Creates the registry with the OpenAI-compatible providers of LLM_PROVIDERS and the model of
+ * LLM_MODEL_OVERRIDE, if set.
+ */
+export function createModelProviderRegistry(): ModelProviderRegistry {
+  return new ModelProviderRegistry(
+    parseProviderConfig(process.env.LLM_PROVIDERS),
+    process.env.LLM_MODEL_OVERRIDE || null
+  );
+}
+
+export const modelProviders = createModelProviderRegistry();
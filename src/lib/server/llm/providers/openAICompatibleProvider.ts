@@ -0,0 +1,28 @@
+import { ChatOpenAI } from "@langchain/openai";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { ModelOptions, ModelProvider, OpenAICompatibleProviderConfig } from "./types";
+
+/**
+ * Chat models of a server implementing the OpenAI chat completions API, e.g. a self-hosted model.
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  constructor(
+    readonly name: string,
+    private config: OpenAICompatibleProviderConfig
+  ) {}
+
+  supports(model: string): boolean {
+    return this.config.models?.includes(model) ?? false;
+  }
+
+  createModel(model: string, options: ModelOptions): BaseChatModel {
+    return new ChatOpenAI({
+      model,
+      temperature: options.temperature,
+      timeout: options.timeout,
+      // The OpenAI client requires a key, even if the server doesn't
+      apiKey: this.config.apiKey || "not-needed",
+      configuration: { baseURL: this.config.baseURL }
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+export interface ModelOptions {
+  temperature: number;
+  timeout: number; // Milliseconds
+}
+
+/**
+ * A source of chat models, e.g. a hosted API or a self-hosted OpenAI-compatible server.
+ */
+export interface ModelProvider {
+  readonly name: string;
+  // Whether the provider serves the model when the model isn't addressed as "<provider>/<model>"
+  supports(model: string): boolean;
+  createModel(model: string, options: ModelOptions): BaseChatModel;
+}
+
+/**
+ * Configuration of an OpenAI-compatible server (Ollama, vLLM, LM Studio, ...).
+ */
+export interface OpenAICompatibleProviderConfig {
+  baseURL: string; // e.g. http://localhost:11434/v1
+  apiKey?: string; // Most local servers don't check it
+  models?: string[]; // Models routed to this provider without the "<provider>/" prefix
+}
@@ -0,0 +1,45 @@
+import { PassageIndex } from "./passages";
+import { createRepositories } from "../../database/supabase";
+import type { DocumentChunk } from "../../database/schema";
+import type { ResearchPassage, ResearchProvider, ResearchSearchOptions } from "./types";
+
+/**
+ * Researches in the supporting documents uploaded with an idea, chunked when they were processed
+ * (see services/documentService).
+ */
+export class IdeaDocumentProvider implements ResearchProvider {
+  readonly name = "documents";
+
+  private index: PassageIndex;
+
+  constructor(chunks: (DocumentChunk & { filename: string })[]) {
+    this.index = new PassageIndex(
+      chunks.map((chunk) => ({
+        id: `${chunk.documentId}#${chunk.position}`,
+        provider: this.name,
+        sourceType: "document",
+        title: chunk.heading ? `${chunk.filename}: ${chunk.heading}` : chunk.filename,
+        text: chunk.content,
+      }))
+    );
+  }
+
+  get isEmpty(): boolean {
+    return this.index.size === 0;
+  }
+
+  async search(query: string, options?: ResearchSearchOptions): Promise<ResearchPassage[]> {
+    return this.index.search(query, options?.limit ?? 5);
+  }
+}
+
+/**
+ * The documents of the idea an analysis run is for, or null if it has none (or the run isn't for an idea).
+ */
+export async function loadIdeaDocuments(ideaId: string | null | undefined): Promise<IdeaDocumentProvider | null> {
+  if (!ideaId) {
+    return null;
+  }
+  const provider = new IdeaDocumentProvider(await createRepositories().documentChunks.getByIdeaId(ideaId));
+  return provider.isEmpty ? null : provider;
+}
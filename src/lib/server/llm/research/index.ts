@@ -0,0 +1,72 @@
+import path from "path";
+import { LocalCorpusProvider } from "./localCorpusProvider";
+import { WebSearchProvider } from "./webSearchProvider";
+import type { ResearchPassage, ResearchProvider, ResearchSearchOptions } from "./types";
+
+export type { EvidenceSourceType, ResearchClaim, ResearchPassage, ResearchProvider, ResearchSearchOptions } from "./types";
+export { LocalCorpusProvider } from "./localCorpusProvider";
+export { WebSearchProvider } from "./webSearchProvider";
+export { IdeaDocumentProvider, loadIdeaDocuments } from "./ideaDocumentProvider";
+
+/**
+ * Searches several providers and merges their passages, best matches of every provider first.
+ * A failing provider is skipped.
+ */
+export class CombinedResearchProvider implements ResearchProvider {
+  readonly name: string;
+
+  constructor(private providers: ResearchProvider[]) {
+    this.name = providers.map((provider) => provider.name).join("+");
+  }
+
+  async search(query: string, options?: ResearchSearchOptions): Promise<ResearchPassage[]> {
+    const limit = options?.limit ?? 5;
+    const results = await Promise.all(
+      this.providers.map(async (provider) => {
+        try {
+          return await provider.search(query, { limit });
+        } catch (error) {
+          console.error(`Research provider "${provider.name}" failed:`, error);
+          return [];
+        }
+      })
+    );
+
+    // Take turns between the providers, their scores are not comparable
+    const merged: ResearchPassage[] = [];
+    for (let index = 0; merged.length < limit && results.some((passages) => index < passages.length); index++) {
+      for (const passages of results) {
+        if (index < passages.length && merged.length < limit) {
+          merged.push(passages[index]);
+        }
+      }
+    }
+    return merged;
+  }
+}
+
+/**
+ * Creates the research provider configured with RESEARCH_PROVIDERS, a comma separated list of
+ * "local" (the reference documents in RESEARCH_CORPUS_DIR, by default ./research_corpus) and "web".
+ */
+export function createResearchProvider(): ResearchProvider {
+  const names = (process.env.RESEARCH_PROVIDERS || "local")
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const providers = names.map((name): ResearchProvider => {
+    switch (name) {
+      case "local":
+        return new LocalCorpusProvider(process.env.RESEARCH_CORPUS_DIR || path.resolve("research_corpus"));
+      case "web":
+        return new WebSearchProvider();
+      default:
+        throw new Error(`Unknown research provider: ${name}`);
+    }
+  });
+
+  return providers.length === 1 ? providers[0] : new CombinedResearchProvider(providers);
+}
+
+export const researchProvider = createResearchProvider();
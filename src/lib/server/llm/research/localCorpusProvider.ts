@@ -0,0 +1,56 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { PassageIndex, splitIntoPassages } from "./passages";
+import type { ResearchPassage, ResearchProvider, ResearchSearchOptions } from "./types";
+
+/**
+ * Researches in a local corpus of reference documents (Markdown and text files), e.g. SDG indicators
+ * and our own reports. The documents are split into passages and indexed for BM25 keyword search
+ * when the provider is first used.
+ */
+export class LocalCorpusProvider implements ResearchProvider {
+  readonly name = "local";
+
+  private index: Promise<PassageIndex> | null = null;
+
+  constructor(private corpusDir: string) {}
+
+  async search(query: string, options?: ResearchSearchOptions): Promise<ResearchPassage[]> {
+    return (await this.getIndex()).search(query, options?.limit ?? 5);
+  }
+
+  private getIndex(): Promise<PassageIndex> {
+    if (!this.index) {
+      this.index = this.buildIndex().catch((error) => {
+        // Retry on the next search instead of caching the failure
+        this.index = null;
+        throw error;
+      });
+    }
+    return this.index;
+  }
+
+  private async buildIndex(): Promise<PassageIndex> {
+    let files: string[];
+    try {
+      files = (await readdir(this.corpusDir, { recursive: true })).filter((file) => /\.(md|txt)$/i.test(file));
+    } catch (error) {
+      console.warn(`Research corpus directory ${this.corpusDir} could not be read:`, error);
+      return new PassageIndex([]);
+    }
+
+    const passages: Omit<ResearchPassage, "score">[] = [];
+    for (const file of files.sort()) {
+      const content = await readFile(path.join(this.corpusDir, file), "utf-8");
+      const documentTitle = content.match(/^#\s+(.*)$/m)?.[1].trim() ?? path.basename(file);
+
+      splitIntoPassages(content).forEach(({ heading, text }, position) => {
+        const title = heading && heading !== documentTitle ? `${documentTitle}: ${heading}` : documentTitle;
+        passages.push({ id: `${file}#${position}`, provider: this.name, sourceType: "document", title, text });
+      });
+    }
+
+    console.log(`Indexed ${passages.length} passages from ${files.length} documents in ${this.corpusDir}`);
+    return new PassageIndex(passages);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_PASSAGE_LENGTH, PassageIndex, splitIntoPassages } from './passages';
+
+describe('splitIntoPassages', () => {
+	it('keeps the paragraphs of a section together under its heading', () => {
+		const passages = splitIntoPassages('# Transport\n\nBuses run hourly.\n\nTrains run daily.\n\n## Costs\nThe fleet costs 2 million.');
+		expect(passages).toEqual([
+			{ heading: 'Transport', text: 'Buses run hourly.\n\nTrains run daily.' },
+			{ heading: 'Costs', text: 'The fleet costs 2 million.' }
+		]);
+	});
+
+	it('splits paragraphs longer than a passage at sentence ends', () => {
+		const sentence = 'The municipal budget covers the operating costs of the new bus lines. ';
+		const passages = splitIntoPassages(sentence.repeat(40).trim());
+
+		expect(passages.length).toBeGreaterThan(1);
+		for (const passage of passages) {
+			expect(passage.text.length).toBeLessThanOrEqual(MAX_PASSAGE_LENGTH);
+		}
+		expect(passages[0].text.endsWith('bus lines.')).toBe(true);
+	});
+});
+
+describe('PassageIndex', () => {
+	it('ranks the passages by the query terms', () => {
+		const index = new PassageIndex([
+			{ id: 'a#0', provider: 'test', sourceType: 'document', title: 'Budget', text: 'The fleet costs 2 million per year.' },
+			{ id: 'a#1', provider: 'test', sourceType: 'document', title: 'Ridership', text: 'Bus ridership grew by 12 percent.' }
+		]);
+
+		expect(index.search('bus ridership', 5).map((passage) => passage.id)).toEqual(['a#1']);
+		expect(index.search('unrelated', 5)).toEqual([]);
+	});
+});
@@ -0,0 +1,154 @@
+import type { ResearchPassage } from "./types";
+
+// Passages are built from consecutive paragraphs up to this length
+export const MAX_PASSAGE_LENGTH = 1200;
+
+// Okapi BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "into", "is", "it",
+  "its", "of", "on", "or", "that", "the", "their", "this", "to", "was", "were", "will", "with",
+]);
+
+interface IndexedPassage {
+  passage: Omit<ResearchPassage, "score">;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Splits a paragraph that is too long for one passage (e.g. a PDF page without blank lines) at line
+ * and sentence ends, or else hard at the max length.
+ */
+function splitParagraph(paragraph: string): string[] {
+  if (paragraph.length <= MAX_PASSAGE_LENGTH) {
+    return [paragraph];
+  }
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+|\n/)) {
+    if (current && current.length + sentence.length + 1 > MAX_PASSAGE_LENGTH) {
+      pieces.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+    while (current.length > MAX_PASSAGE_LENGTH) {
+      pieces.push(current.slice(0, MAX_PASSAGE_LENGTH));
+      current = current.slice(MAX_PASSAGE_LENGTH);
+    }
+  }
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Splits a Markdown or text document into passages of consecutive paragraphs of the same section.
+ */
+export function splitIntoPassages(content: string): { heading: string | null; text: string }[] {
+  const passages: { heading: string | null; text: string }[] = [];
+  let heading: string | null = null;
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      passages.push({ heading, text: current.join("\n\n") });
+      current = [];
+    }
+  };
+
+  for (const block of content.split(/\n\s*\n/)) {
+    let paragraph = block.trim();
+
+    // A heading starts a new section (and can be followed by text without a blank line in between)
+    const headingMatch = paragraph.match(/^#{1,6}\s+(.*)(\n|$)/);
+    if (headingMatch) {
+      flush();
+      heading = headingMatch[1].trim();
+      paragraph = paragraph.slice(headingMatch[0].length).trim();
+    }
+    if (!paragraph) {
+      continue;
+    }
+
+    for (const piece of splitParagraph(paragraph)) {
+      if (current.length > 0 && current.join("\n\n").length + piece.length > MAX_PASSAGE_LENGTH) {
+        flush();
+      }
+      current.push(piece);
+    }
+  }
+  flush();
+
+  return passages;
+}
+
+/**
+ * A BM25 keyword index of passages.
+ */
+export class PassageIndex {
+  private passages: IndexedPassage[];
+
+  constructor(passages: Omit<ResearchPassage, "score">[]) {
+    this.passages = passages.map((passage) => {
+      const tokens = tokenize(`${passage.title} ${passage.text}`);
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach((token) => termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1));
+      return { passage, termFrequencies, length: tokens.length };
+    });
+  }
+
+  get size(): number {
+    return this.passages.length;
+  }
+
+  /**
+   * The passages matching the query best, only those with at least one of its terms.
+   */
+  search(query: string, limit: number): ResearchPassage[] {
+    const passages = this.passages;
+    const queryTerms = [...new Set(tokenize(query))];
+    if (passages.length === 0 || queryTerms.length === 0) {
+      return [];
+    }
+
+    const averageLength = passages.reduce((total, indexed) => total + indexed.length, 0) / passages.length;
+    const inverseDocumentFrequencies = new Map<string, number>();
+    for (const term of queryTerms) {
+      const documentFrequency = passages.filter((indexed) => indexed.termFrequencies.has(term)).length;
+      inverseDocumentFrequencies.set(
+        term,
+        Math.log(1 + (passages.length - documentFrequency + 0.5) / (documentFrequency + 0.5))
+      );
+    }
+
+    return passages
+      .map((indexed) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const frequency = indexed.termFrequencies.get(term) ?? 0;
+          if (frequency > 0) {
+            score +=
+              inverseDocumentFrequencies.get(term)! *
+              ((frequency * (BM25_K1 + 1)) /
+                (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * indexed.length) / averageLength)));
+          }
+        }
+        return { ...indexed.passage, score };
+      })
+      .filter((passage) => passage.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,42 @@
+import type { EvidenceSourceType } from "../../database/schema";
+
+export type { EvidenceSourceType };
+
+/**
+ * A passage retrieved by a research provider, the evidence research findings are based on.
+ */
+export interface ResearchPassage {
+  id: string; // Stable ID of the passage within its provider (e.g. "sdg_indicators.md#12")
+  provider: string; // Name of the provider that retrieved the passage
+  sourceType: EvidenceSourceType;
+  title: string; // Document title, with the section heading if there is one
+  text: string;
+  url?: string;
+  score: number; // Relevance to the query, only comparable between passages of the same search
+}
+
+export interface ResearchSearchOptions {
+  limit?: number; // Max number of passages to return (default 5)
+}
+
+/**
+ * A source of reference material for the research step of the analysis.
+ */
+export interface ResearchProvider {
+  readonly name: string;
+  search(query: string, options?: ResearchSearchOptions): Promise<ResearchPassage[]>;
+}
+
+/**
+ * A discrete claim of the research findings of a category, with the source it was taken from.
+ */
+export interface ResearchClaim {
+  claim: string;
+  sourceType: EvidenceSourceType;
+  sourceTitle: string;
+  sourceUrl?: string;
+  passageId?: string; // The retrieved passage the claim was taken from
+  excerpt: string; // Quote from the source supporting the claim
+  confidence: number; // Between 0 and 1
+  impacts: string[]; // The downstream impacts of the category the claim is evidence for
+}
@@ -0,0 +1,14 @@
+import type { ResearchPassage, ResearchProvider, ResearchSearchOptions } from "./types";
+
+/**
+ * Placeholder for researching on the web. No search API is integrated yet, so it never finds anything;
+ * the analysis then falls back to the passages of the other providers.
+ */
+export class WebSearchProvider implements ResearchProvider {
+  readonly name = "web";
+
+  async search(query: string, options?: ResearchSearchOptions): Promise<ResearchPassage[]> {
+    console.warn(`Web search is not implemented yet, no results for "${query}" (limit ${options?.limit ?? 5})`);
+    return [];
+  }
+}
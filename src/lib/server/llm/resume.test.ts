@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { StateGraph } from '@langchain/langgraph';
+import { AnalysisCheckpointSaver } from './checkpointSaver';
+import { getRetryCheckpoint } from './resume';
+import type { IAnalysisCheckpointRepository } from '../database/interfaces';
+import type { AnalysisCheckpoint, AnalysisCheckpointWrite } from '../database/schema';
+import type { AnalysisIssue } from './types';
+
+// In-memory stand-in for the database table behind the checkpointer
+class FakeCheckpointRepository implements IAnalysisCheckpointRepository {
+	checkpoints: AnalysisCheckpoint[] = [];
+	writes: AnalysisCheckpointWrite[] = [];
+
+	async create(data: Parameters<IAnalysisCheckpointRepository['create']>[0]): Promise<AnalysisCheckpoint> {
+		const checkpoint = {
+			id: crypto.randomUUID(),
+			checkpointNs: '',
+			parentCheckpointId: null,
+			createdAt: new Date(),
+			...data
+		} as AnalysisCheckpoint;
+		this.checkpoints.push(checkpoint);
+		return checkpoint;
+	}
+
+	async getById(id: string) {
+		return this.checkpoints.find((checkpoint) => checkpoint.id === id) ?? null;
+	}
+
+	async update(): Promise<AnalysisCheckpoint> {
+		throw new Error('Not supported');
+	}
+
+	async delete(id: string) {
+		this.checkpoints = this.checkpoints.filter((checkpoint) => checkpoint.id !== id);
+	}
+
+	async getByCheckpointId(analysisId: string, checkpointNs: string, checkpointId: string) {
+		return (
+			this.checkpoints.find(
+				(checkpoint) =>
+					checkpoint.analysisId === analysisId &&
+					checkpoint.checkpointNs === checkpointNs &&
+					checkpoint.checkpointId === checkpointId
+			) ?? null
+		);
+	}
+
+	async getLatest(analysisId: string, checkpointNs: string) {
+		return (await this.list(analysisId, { checkpointNs, limit: 1 }))[0] ?? null;
+	}
+
+	async list(analysisId: string | undefined, options: { checkpointNs?: string; before?: string; limit?: number } = {}) {
+		const checkpoints = this.checkpoints
+			.filter(
+				(checkpoint) =>
+					(analysisId === undefined || checkpoint.analysisId === analysisId) &&
+					(options.checkpointNs === undefined || checkpoint.checkpointNs === options.checkpointNs) &&
+					(options.before === undefined || checkpoint.checkpointId < options.before)
+			)
+			.sort((a, b) => b.checkpointId.localeCompare(a.checkpointId));
+		return options.limit !== undefined ? checkpoints.slice(0, options.limit) : checkpoints;
+	}
+
+	async upsertWrites(writes: Parameters<IAnalysisCheckpointRepository['upsertWrites']>[0]) {
+		for (const write of writes) {
+			this.writes = this.writes.filter(
+				(existing) =>
+					!(
+						existing.analysisId === write.analysisId &&
+						existing.checkpointId === write.checkpointId &&
+						existing.taskId === write.taskId &&
+						existing.idx === write.idx
+					)
+			);
+			this.writes.push({ id: crypto.randomUUID(), checkpointNs: '', createdAt: new Date(), ...write } as AnalysisCheckpointWrite);
+		}
+	}
+
+	async getWrites(analysisId: string, checkpointNs: string, checkpointId: string) {
+		return this.writes.filter(
+			(write) =>
+				write.analysisId === analysisId && write.checkpointNs === checkpointNs && write.checkpointId === checkpointId
+		);
+	}
+
+	async deleteByAnalysisId(analysisId: string) {
+		this.checkpoints = this.checkpoints.filter((checkpoint) => checkpoint.analysisId !== analysisId);
+		this.writes = this.writes.filter((write) => write.analysisId !== analysisId);
+	}
+}
+
+interface TestState {
+	analysisId: string;
+	steps: string[];
+	issues: AnalysisIssue[];
+}
+
+/**
+ * A workflow of three nodes, the ones in `failing` record an error instead of throwing (like the analysis nodes).
+ */
+function createWorkflow(repository: FakeCheckpointRepository, failing: Set<string>, calls: string[]) {
+	const node = (name: string) => async (state: TestState): Promise<Partial<TestState>> => {
+		calls.push(name);
+		if (failing.has(name)) {
+			return { issues: [{ node: name, severity: 'error', message: 'The scores are missing' }] };
+		}
+		return { steps: [...state.steps, name] };
+	};
+
+	return new StateGraph<TestState>({
+		channels: {
+			analysisId: null,
+			steps: null,
+			issues: {
+				reducer: (current: AnalysisIssue[], update: AnalysisIssue[]) => [...current, ...(update ?? [])],
+				default: () => []
+			}
+		}
+	})
+		.addNode('categorize', node('categorize'))
+		.addNode('evaluate', node('evaluate'))
+		.addNode('summarize', node('summarize'))
+		.addEdge('__start__', 'categorize')
+		.addEdge('categorize', 'evaluate')
+		.addEdge('evaluate', 'summarize')
+		.addEdge('summarize', '__end__')
+		.compile({ checkpointer: new AnalysisCheckpointSaver(repository) });
+}
+
+describe('getRetryCheckpoint', () => {
+	const config = { configurable: { thread_id: 'analysis-1' } };
+
+	it('resumes a finished run before the node that reported an error', async () => {
+		const repository = new FakeCheckpointRepository();
+		const failing = new Set(['evaluate']);
+		const calls: string[] = [];
+		const workflow = createWorkflow(repository, failing, calls);
+
+		const failed = await workflow.invoke({ analysisId: 'analysis-1', steps: [], issues: [] }, config);
+		expect(failed.issues).toHaveLength(1);
+		expect((await workflow.getState(config)).next).toEqual([]);
+
+		failing.clear();
+		const checkpoint = await getRetryCheckpoint(workflow, 'analysis-1');
+		expect(checkpoint).not.toBeNull();
+
+		const resumed = await workflow.invoke(null, checkpoint!);
+		expect(calls).toEqual(['categorize', 'evaluate', 'summarize', 'evaluate', 'summarize']);
+		expect(resumed.steps).toEqual(['categorize', 'evaluate', 'summarize']);
+		expect(resumed.issues).toEqual([]);
+		expect((await workflow.getState(config)).values.issues).toEqual([]);
+	});
+
+	it('reruns the whole workflow if the first node reported an error', async () => {
+		const repository = new FakeCheckpointRepository();
+		const failing = new Set(['categorize']);
+		const calls: string[] = [];
+		const workflow = createWorkflow(repository, failing, calls);
+
+		await workflow.invoke({ analysisId: 'analysis-1', steps: [], issues: [] }, config);
+		failing.clear();
+		const resumed = await workflow.invoke(null, (await getRetryCheckpoint(workflow, 'analysis-1'))!);
+
+		expect(calls).toEqual(['categorize', 'evaluate', 'summarize', 'categorize', 'evaluate', 'summarize']);
+		expect(resumed.steps).toEqual(['categorize', 'evaluate', 'summarize']);
+		expect(resumed.issues).toEqual([]);
+	});
+
+	it('has nothing to redo for a run without errors', async () => {
+		const repository = new FakeCheckpointRepository();
+		const workflow = createWorkflow(repository, new Set(), []);
+
+		await workflow.invoke({ analysisId: 'analysis-1', steps: [], issues: [] }, config);
+
+		expect(await getRetryCheckpoint(workflow, 'analysis-1')).toBeNull();
+	});
+});
@@ -0,0 +1,34 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { StateSnapshot } from "@langchain/langgraph";
+import type { AnalysisIssue } from "./types";
+
+interface CheckpointedWorkflow {
+  getStateHistory(config: RunnableConfig): AsyncIterableIterator<StateSnapshot>;
+}
+
+/**
+ * The checkpoint a retry of a finished run restarts from: the last one before the node that reported the
+ * run's first error, so that node and all after it run again. The nodes record their errors as issues
+ * instead of throwing, so without this a retry would only get the finished (failed) state back.
+ * @returns The config of the checkpoint, null if the run has no errors
+ */
+export async function getRetryCheckpoint(workflow: CheckpointedWorkflow, analysisId: string): Promise<RunnableConfig | null> {
+  let firstErrorIndex: number | null = null;
+
+  // Newest first; the issues only grow from one checkpoint to the next
+  for await (const snapshot of workflow.getStateHistory({ configurable: { thread_id: analysisId } })) {
+    const issues: AnalysisIssue[] = snapshot.values?.issues ?? [];
+    if (firstErrorIndex === null) {
+      const index = issues.findIndex((issue) => issue.severity === "error");
+      if (index < 0) {
+        return null;
+      }
+      firstErrorIndex = index;
+    }
+    if (issues.length <= firstErrorIndex && snapshot.next.length > 0) {
+      return snapshot.config;
+    }
+  }
+
+  return null;
+}
@@ -1,10 +1,10 @@
 import type { BaseCallbackHandler } from "@langchain/core/callbacks/base";
-import type { Runnable } from "@langchain/core/runnables";
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
-import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import { RunnableLambda, type Runnable } from "@langchain/core/runnables";
+import { AIMessage, type BaseMessage } from "@langchain/core/messages";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { LLM_MODELS, type LLMModel } from "$lib/server/llm/types";
+import { modelProviders } from "$lib/server/llm/providers";
+import { getCassette } from "$lib/server/llm/cassettes";
 
 // Define types for our retry utility
 interface RetryOptions {
@@ -38,38 +38,19 @@ class TimeoutError extends Error {
 
 /**
  * Helper function to instantiate an LLM model based on its name.
- * @param model The name of the model to instantiate.
+ * @param model The name of the model to instantiate, optionally addressed with its provider ("ollama/llama3.1:8b").
  * @param temperature The temperature setting for the model.
  * @param timeout The timeout for the model.
  * @returns An instance of BaseChatModel.
  */
 function getLLMModelInstance(model: LLMModel | string, temperature: number, timeout: number): BaseChatModel {
-  const modelName = model
-  if (modelName.toLowerCase().startsWith("gpt")) {
-    return new ChatOpenAI({
-      modelName: model,
-      temperature: temperature,
-      timeout: timeout
-    });
-  } else if (modelName.toLowerCase().startsWith("claude")) {
-    return new ChatAnthropic({
-      model,
-      temperature: temperature,
-      // Anthropic models handle timeout at the call level, not constructor.
-      // This 'timeout' will be passed as a call option in invoke later.
-    });
-  } else if (modelName.toLowerCase().startsWith("gemini")) {
-    // Google models
-    return new ChatGoogleGenerativeAI({
-      model,
-      temperature: temperature,
-    });
-  }
-  throw new Error(`Unsupported LLM model: ${model}`);
+  // The provider is chosen by the registry, see ./providers
+  return modelProviders.createModel(model, { temperature, timeout });
 }
 
 /**
- * Utility function to call LLM with retry and fallback mechanisms
+ * Utility function to call LLM with retry and fallback mechanisms.
+ * With a cassette (see ./cassettes) the responses are recorded, or replayed without calling the model.
  * @param prompt The prompt to use
  * @param parser The parser to use (if any)
  * @param input The input for the chain
@@ -92,7 +73,17 @@ export async function callWithRetry(
     timeout = 60000 // 60 seconds default timeout
   } = retryOptions;
 
-  const modelsToTry = [llmOptions.model, ...fallbackModels];
+  const cassette = getCassette();
+  const promptText: string | null = cassette ? await prompt.format(input) : null;
+
+  if (cassette?.mode === "replay") {
+    // A missing recording fails right away, retrying can't fix it
+    const message = new AIMessage({ content: await cassette.replay(promptText!) });
+    return parser ? await parser.invoke(message) : message;
+  }
+
+  // A model override (e.g. a self-hosted model) replaces the model and its fallbacks
+  const modelsToTry = modelProviders.override ? [modelProviders.override] : [llmOptions.model, ...fallbackModels];
   let lastError: Error | undefined;
 
   // Try each model in sequence
@@ -111,11 +102,14 @@ export async function callWithRetry(
         const model = getLLMModelInstance(currentModelName, llmOptions.temperature, timeout);
 
         // Create the chain with the current model
-        let chain: Runnable;
+        let chain: Runnable = prompt.pipe(model);
+        let response: BaseMessage | undefined;
+        if (cassette?.mode === "record") {
+          // Keep the raw response, it's only recorded if it can be parsed
+          chain = chain.pipe(RunnableLambda.from((message: BaseMessage) => (response = message)));
+        }
         if (parser) {
-          chain = prompt.pipe(model).pipe(parser);
-        } else {
-          chain = prompt.pipe(model);
+          chain = chain.pipe(parser);
         }
 
         // Add a timeout wrapper
@@ -129,6 +123,10 @@ export async function callWithRetry(
           timeoutPromise
         ]);
 
+        if (cassette?.mode === "record" && response) {
+          await cassette.record({ model: currentModelName, prompt: promptText!, response: response.content });
+        }
+
         if (isFallbackModel) {
           console.log(`Successfully executed with fallback model: ${currentModelName}`);
         } else if (attempt > 0) {
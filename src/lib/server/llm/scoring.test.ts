@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateImpactScores, combineScoreSamples, impactWeight } from './scoring';
+
+describe('aggregateImpactScores', () => {
+	it('is neutral without scored impacts', () => {
+		expect(aggregateImpactScores([], 'expected')).toBe(0);
+	});
+
+	it('weighs every impact the same by default', () => {
+		const evaluations = [
+			{ score: 0.8, rationale: '', timeHorizon: 'long' as const, likelihood: 0.5 },
+			{ score: -0.4, rationale: '', timeHorizon: 'short' as const, likelihood: 1 }
+		];
+		expect(aggregateImpactScores(evaluations)).toBe(0.2);
+	});
+
+	it('discounts speculative long-term impacts by their expected value', () => {
+		const evaluations = [
+			{ score: 0.8, rationale: '', timeHorizon: 'long' as const, likelihood: 0.5 },
+			{ score: -0.4, rationale: '', timeHorizon: 'short' as const, likelihood: 1 }
+		];
+		// (0.8 * 0.5 * 0.6 - 0.4) / 2
+		expect(aggregateImpactScores(evaluations, 'expected')).toBe(-0.08);
+	});
+
+	it('does not discount impacts of runs without estimates', () => {
+		expect(impactWeight({ score: 0.5, rationale: '' }, 'expected')).toBe(1);
+	});
+});
+
+describe('combineScoreSamples', () => {
+	it('has no spread for a single evaluation', () => {
+		expect(combineScoreSamples([0.42])).toEqual({
+			mean: 0.42,
+			uncertainty: { samples: 1, standardDeviation: 0, lower: 0.42, upper: 0.42 }
+		});
+	});
+
+	it('gives the mean and the interval of several evaluations', () => {
+		const { mean, uncertainty } = combineScoreSamples([0.3, 0.4, 0.5]);
+		expect(mean).toBe(0.4);
+		expect(uncertainty).toEqual({ samples: 3, standardDeviation: 0.1, lower: 0.2, upper: 0.6 });
+	});
+
+	it('keeps the interval within the score range', () => {
+		const { uncertainty } = combineScoreSamples([1, 0.2]);
+		expect(uncertainty.upper).toBe(1);
+	});
+});
@@ -0,0 +1,100 @@
+import type { ImpactTimeHorizon } from "../database/schema";
+
+/**
+ * Score of a single downstream impact, between -1.0 (highly negative) and +1.0 (highly positive).
+ */
+export interface ImpactEvaluation {
+  score: number;
+  rationale: string;
+  // When the impact would materialize and how likely it is (0-1); missing in runs from before they were estimated
+  timeHorizon?: ImpactTimeHorizon;
+  likelihood?: number;
+}
+
+/**
+ * How much independent evaluations of a category disagree. The interval is where about 95% of
+ * the scores of single evaluations would fall (mean ± 1.96 standard deviations, within [-1, 1]).
+ */
+export interface ScoreUncertainty {
+  samples: number;
+  standardDeviation: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * How the impact scores count towards the category score: every impact the same ("equal"), or by its
+ * expected value, i.e. discounted by its likelihood and time horizon ("expected").
+ */
+export type ImpactWeighting = "equal" | "expected";
+
+// Discount of the score of an impact by when it would materialize: the further out, the more can change in between
+export const TIME_HORIZON_WEIGHTS: Record<ImpactTimeHorizon, number> = {
+  short: 1,
+  medium: 0.8,
+  long: 0.6,
+};
+
+/**
+ * Clamps a score to [-1, 1] and rounds it to the precision it is stored with.
+ */
+export function normalizeScore(score: number): number {
+  return Math.round(Math.min(Math.max(score, -1), 1) * 100) / 100;
+}
+
+/**
+ * Clamps a likelihood to [0, 1] and rounds it to the precision it is stored with.
+ */
+export function normalizeLikelihood(likelihood: number): number {
+  return Math.round(Math.min(Math.max(likelihood, 0), 1) * 100) / 100;
+}
+
+/**
+ * The factor an impact's score counts with. Impacts without a likelihood or time horizon aren't discounted.
+ */
+export function impactWeight(evaluation: ImpactEvaluation, weighting: ImpactWeighting): number {
+  if (weighting === "equal") {
+    return 1;
+  }
+  const horizonWeight = evaluation.timeHorizon ? TIME_HORIZON_WEIGHTS[evaluation.timeHorizon] : 1;
+  return (evaluation.likelihood ?? 1) * horizonWeight;
+}
+
+/**
+ * Derives a category score from the evaluations of its impacts: the mean of their (weighted) scores, so a
+ * category of speculative long-term benefits scores lower than one of near-certain short-term ones.
+ * A category without scored impacts is neutral (0).
+ */
+export function aggregateImpactScores(evaluations: ImpactEvaluation[], weighting: ImpactWeighting = "equal"): number {
+  if (evaluations.length === 0) {
+    return 0;
+  }
+  const total = evaluations.reduce((sum, evaluation) => sum + evaluation.score * impactWeight(evaluation, weighting), 0);
+  return normalizeScore(total / evaluations.length);
+}
+
+/**
+ * Combines the category scores of independent evaluations: their mean and how far they spread.
+ * A single evaluation has no spread.
+ */
+export function combineScoreSamples(scores: number[]): { mean: number; uncertainty: ScoreUncertainty } {
+  if (scores.length === 0) {
+    return { mean: 0, uncertainty: { samples: 0, standardDeviation: 0, lower: 0, upper: 0 } };
+  }
+
+  const mean = scores.reduce((total, score) => total + score, 0) / scores.length;
+  const variance = scores.length > 1
+    ? scores.reduce((total, score) => total + (score - mean) ** 2, 0) / (scores.length - 1)
+    : 0;
+  const standardDeviation = Math.sqrt(variance);
+
+  return {
+    mean: normalizeScore(mean),
+    uncertainty: {
+      samples: scores.length,
+      standardDeviation: Math.round(standardDeviation * 100) / 100,
+      lower: normalizeScore(mean - 1.96 * standardDeviation),
+      upper: normalizeScore(mean + 1.96 * standardDeviation),
+    },
+  };
+}
@@ -1,4 +1,7 @@
-import { llmWorkflow } from './workflow';
+import { randomUUID } from 'crypto';
+import { llmWorkflow, getAnalysisConfig } from './workflow';
+import { DEFAULT_MAX_IMPACT_DEPTH, DEFAULT_EXPANSION_BUDGET } from './nodes/expandDownstreamImpacts';
+import { detectLanguage } from './language';
 
 async function testWorkflow() {
   try {
@@ -8,21 +11,42 @@ async function testWorkflow() {
     // Initialize the state with the proposal
     const initialState = {
       proposal: testProposal,
-      analysisId: "test-analysis-id",
+      analysisId: randomUUID(),
       userId: "test-user-id",
+      ideaId: null,
+      profile: "standard" as const,
+      promptVersions: {}, // Latest version of every prompt
+      language: detectLanguage(testProposal),
       extractedStatements: [],
       downstreamImpacts: [],
+      statementImpacts: {},
+      impactDepths: {},
+      impactParents: {},
+      expansionFrontier: [],
+      maxImpactDepth: DEFAULT_MAX_IMPACT_DEPTH,
+      expansionBudget: DEFAULT_EXPANSION_BUDGET,
+      mergedImpacts: {},
       groupedCategories: {},
+      categorizationIssues: null,
       researchFindings: {},
+      researchPassages: {},
+      researchClaims: {},
       evaluatedScores: {},
-      finalSummary: ''
+      scoreUncertainty: {},
+      impactEvaluations: {},
+      critiques: {},
+      impactMetrics: {},
+      impactStakeholders: {},
+      recommendation: null,
+      finalSummary: '',
+      issues: []
     };
     
     console.log("Starting LLM workflow test...");
     console.log("Input proposal:", testProposal);
     
     // Invoke the workflow
-    const result = await llmWorkflow.invoke(initialState);
+    const result = await llmWorkflow.invoke(initialState, getAnalysisConfig(initialState.analysisId));
     
     console.log("Workflow completed successfully!");
     console.log("Final summary:", result.finalSummary);
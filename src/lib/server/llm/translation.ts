@@ -0,0 +1,88 @@
+import { StructuredOutputParser } from "@langchain/core/output_parsers";
+import { z } from "zod";
+import { langfuseHandler } from "./langfuseIntegration";
+import { callWithRetry } from "./retryUtils";
+import { promptRegistry } from "./prompts";
+import { getNodeModel } from "./profiles";
+import { mapWithConcurrency } from "./concurrency";
+import { LANGUAGE_NAMES } from "./language";
+import type { AnalysisLanguage, AnalysisProfileName } from "../database/schema";
+
+// Number of texts translated per LLM call, and how many calls run at the same time
+const TEXTS_PER_BATCH = 20;
+const TRANSLATION_CONCURRENCY = 3;
+
+// Define the output schema
+const outputSchema = z.object({
+  translations: z.array(z.object({
+    text: z.number().describe("Number of the text"),
+    translation: z.string().describe("The translated text"),
+  })).describe("One translation for every text"),
+});
+
+const parser = StructuredOutputParser.fromZodSchema(outputSchema);
+
+promptRegistry.register("translate", "1", `
+You are a professional translator of policy and impact analyses.
+
+Task: Translate each of the numbered texts below into {language}. Keep the meaning, tone and level of detail; don't summarize, explain or add anything. Keep the Markdown formatting, footnote references like [1] and numbers as they are. A text that is already in {language} is returned unchanged.
+
+Input texts:
+{texts}
+
+{format_instructions}
+`);
+
+/**
+ * Translates texts of an analysis into another language, with the models of the analysis' profile.
+ * @returns The translations in the order of the texts
+ * @throws If a text could not be translated, so a translation is never stored incomplete
+ */
+export async function translateTexts(
+  texts: string[],
+  language: AnalysisLanguage,
+  profile: AnalysisProfileName | null | undefined
+): Promise<string[]> {
+  const prompt = await promptRegistry.get("translate");
+  const nodeModel = getNodeModel(profile, "translate");
+
+  const batches: string[][] = [];
+  for (let index = 0; index < texts.length; index += TEXTS_PER_BATCH) {
+    batches.push(texts.slice(index, index + TEXTS_PER_BATCH));
+  }
+
+  const translatedBatches = await mapWithConcurrency(batches, TRANSLATION_CONCURRENCY, async (batch) => {
+    // Invoke with retry mechanism and fallback models
+    const result = await callWithRetry(
+      prompt,
+      parser,
+      {
+        language: LANGUAGE_NAMES[language],
+        texts: batch.map((text, index) => `${index + 1}. ${text}`).join("\n\n"),
+        format_instructions: parser.getFormatInstructions()
+      },
+      {
+        model: nodeModel.model,
+        temperature: nodeModel.temperature,
+        callbacks: [langfuseHandler]
+      },
+      {
+        maxRetries: 3,
+        fallbackModels: nodeModel.fallbackModels
+      }
+    );
+
+    const translations = new Map<number, string>();
+    for (const item of result.translations as z.infer<typeof outputSchema>["translations"]) {
+      translations.set(item.text, item.translation);
+    }
+
+    const missing = batch.filter((_text, index) => !translations.has(index + 1));
+    if (missing.length > 0) {
+      throw new Error(`The translation of ${missing.length} of ${batch.length} texts is missing`);
+    }
+    return batch.map((_text, index) => translations.get(index + 1)!);
+  });
+
+  return translatedBatches.flat();
+}
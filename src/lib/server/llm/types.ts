@@ -1,15 +1,86 @@
 import { ChatAnthropic } from "@langchain/anthropic";
+import type { ResearchClaim, ResearchPassage } from "./research/types";
+import type { ImpactEvaluation, ScoreUncertainty } from "./scoring";
+import type { PromptVersions } from "./prompts/types";
+import type { AnalysisLanguage, AnalysisProfileName, StakeholderEffect } from "../database/schema";
+import type { Recommendation } from "$lib/recommendation";
 
 export interface AnalysisState {
     proposal: string;
     analysisId: string;
     userId: string;
+    ideaId: string | null; // The idea the run analyzes, its supporting documents are searched (see ./research)
+    profile: AnalysisProfileName; // How thorough the run is, see ./profiles
+    promptVersions: PromptVersions; // Prompt name -> the version this run uses (see ./prompts)
+    language: AnalysisLanguage; // Language the results are written in (see ./language)
     extractedStatements: string[];
     downstreamImpacts: string[];
+    statementImpacts: { [key: string]: string[] }; // Extracted statement -> the downstream impacts generated from it
+    impactDepths: { [key: string]: number }; // Downstream impact -> its order (1 = direct consequence of a statement)
+    impactParents: { [key: string]: string }; // Higher-order impact -> the impact it was expanded from
+    expansionFrontier: string[]; // Impacts to expand on the next level
+    maxImpactDepth: number; // Highest order of impacts to generate
+    expansionBudget: number; // Max number of impacts expanded per level
+    mergedImpacts: { [key: string]: string[] }; // Downstream impact -> the near-duplicate impacts merged into it
     groupedCategories: { [key: string]: string[] };
+    categorizationIssues: CategorizationIssues | null; // Discrepancies between the impacts and their categorization
     researchFindings: { [key: string]: string };
-    evaluatedScores: { [key: string]: number };
+    researchPassages: { [key: string]: ResearchPassage[] }; // Category -> the passages its research findings are based on
+    researchClaims: { [key: string]: ResearchClaim[] }; // Category -> the claims of its research findings, with their sources
+    evaluatedScores: { [key: string]: number }; // Category -> aggregate of the scores of its impacts (mean of the evaluation ensemble)
+    scoreUncertainty: { [key: string]: ScoreUncertainty }; // Category -> how much the evaluations of the ensemble disagree
+    impactEvaluations: { [key: string]: ImpactEvaluation }; // Downstream impact -> its score, rationale, time horizon and likelihood
+    critiques: { [key: string]: CategoryCritique }; // Category -> the case against its score
+    impactMetrics: { [key: string]: { [key: string]: number } }; // Downstream impact -> metric name (see $lib/metrics) -> value in [-1, 1]
+    impactStakeholders: { [key: string]: ImpactStakeholder[] }; // Downstream impact -> the groups it affects
+    recommendation: Recommendation | null; // Computed from the category scores by the summarize step
     finalSummary: string;
+    issues: AnalysisIssue[]; // Problems the nodes ran into, accumulated over the run
+}
+
+/**
+ * A problem a workflow node ran into. Nodes don't fail the run; they report what's missing instead.
+ */
+export interface AnalysisIssue {
+    node: string;
+    severity: "warning" | "error"; // error: a part of the analysis is missing, warning: complete but possibly less reliable
+    message: string;
+}
+
+/**
+ * The red-team review of a category score, to be read next to the research findings.
+ */
+export interface CategoryCritique {
+    counterArguments: string[];
+    overlookedRisks: string[];
+}
+
+/**
+ * A group affected by a downstream impact. Group names are consistent across the impacts of a run.
+ */
+export interface ImpactStakeholder {
+    group: string;
+    effect: StakeholderEffect;
+    description: string;
+}
+
+/**
+ * The texts of an analysis' results in another language, by the ID of the record they belong to.
+ */
+export interface AnalysisTranslationContent {
+    summary: string | null;
+    statements: { [id: string]: string };
+    categories: { [id: string]: { name: string; researchFindings: string | null; critique: CategoryCritique | null } };
+    downstreamImpacts: { [id: string]: { impactText: string; scoreRationale: string | null } };
+}
+
+/**
+ * Impacts the categorization didn't handle as expected. Every impact ends up in exactly one category anyway.
+ */
+export interface CategorizationIssues {
+    uncategorized: string[]; // Left out by the model even after re-prompting, put into the "Uncategorized" category
+    duplicates: string[]; // Listed in several categories, kept in the first one
+    unknown: string[]; // Returned by the model but not among the impacts, dropped
 }
 
 export const LLM_MODELS = {
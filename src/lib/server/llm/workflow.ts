@@ -1,10 +1,21 @@
 import { StateGraph } from "@langchain/langgraph";
-import type { AnalysisState } from "./types";
+import type { AnalysisIssue, AnalysisState } from "./types";
 import { extractStatements } from "./nodes/extractStatements";
 import { generateDownstreamImpacts } from "./nodes/generateDownstreamImpacts";
+import { expandDownstreamImpacts, routeExpansion } from "./nodes/expandDownstreamImpacts";
+import { dedupeImpacts } from "./nodes/dedupeImpacts";
 import { categorizeImpacts } from "./nodes/categorizeImpacts";
 import { researchAndEvaluate } from "./nodes/researchAndEvaluate";
+import { critiqueScores } from "./nodes/critiqueScores";
+import { mapImpactMetrics } from "./nodes/mapImpactMetrics";
+import { mapStakeholders } from "./nodes/mapStakeholders";
 import { summarizeFindings } from "./nodes/summarizeFindings";
+import { AnalysisCheckpointSaver } from "./checkpointSaver";
+import { withProgress } from "./progress";
+import { createRepositories } from "../database/supabase";
+
+// Workflow nodes in execution order (used to report progress)
+export const ANALYSIS_NODES = ["extract", "downstream", "expand", "dedupe", "categorize", "evaluate", "critique", "metrics", "stakeholders", "summarize"] as const;
 
 // Create the workflow graph
 const graphBuilder = new StateGraph<AnalysisState>({
@@ -12,29 +23,99 @@ const graphBuilder = new StateGraph<AnalysisState>({
     proposal: null,
     analysisId: null,
     userId: null,
+    ideaId: null,
+    profile: null,
+    promptVersions: null,
+    language: null,
     extractedStatements: null,
     downstreamImpacts: null,
+    statementImpacts: null,
+    impactDepths: null,
+    impactParents: null,
+    expansionFrontier: null,
+    maxImpactDepth: null,
+    expansionBudget: null,
+    mergedImpacts: null,
     groupedCategories: null,
+    categorizationIssues: null,
     researchFindings: null,
+    researchPassages: null,
+    researchClaims: null,
     evaluatedScores: null,
+    scoreUncertainty: null,
+    impactEvaluations: null,
+    critiques: null,
+    impactMetrics: null,
+    impactStakeholders: null,
+    recommendation: null,
     finalSummary: null,
+    // Every node adds the issues it ran into
+    issues: {
+      reducer: (current: AnalysisIssue[], update: AnalysisIssue[]) => [...current, ...(update ?? [])],
+      default: () => [],
+    },
   },
 })
-  .addNode("extract", extractStatements)
-  .addNode("downstream", generateDownstreamImpacts)
-  .addNode("categorize", categorizeImpacts)
-  .addNode("evaluate", researchAndEvaluate)
-  .addNode("summarize", summarizeFindings);
+  .addNode("extract", withProgress("extract", extractStatements))
+  .addNode("downstream", withProgress("downstream", generateDownstreamImpacts))
+  .addNode("expand", withProgress("expand", expandDownstreamImpacts))
+  .addNode("dedupe", withProgress("dedupe", dedupeImpacts))
+  .addNode("categorize", withProgress("categorize", categorizeImpacts))
+  .addNode("evaluate", withProgress("evaluate", researchAndEvaluate))
+  .addNode("critique", withProgress("critique", critiqueScores))
+  .addNode("metrics", withProgress("metrics", mapImpactMetrics))
+  .addNode("stakeholders", withProgress("stakeholders", mapStakeholders))
+  .addNode("summarize", withProgress("summarize", summarizeFindings));
 
 // Define the flow
 graphBuilder.addEdge("extract", "downstream");
-graphBuilder.addEdge("downstream", "categorize");
+// Expand impacts into higher-order ones, one level per pass, until the max depth is reached
+graphBuilder.addConditionalEdges("downstream", routeExpansion, ["expand", "dedupe"]);
+graphBuilder.addConditionalEdges("expand", routeExpansion, ["expand", "dedupe"]);
+// Merge near-duplicate impacts of all levels before they're categorized
+graphBuilder.addEdge("dedupe", "categorize");
 graphBuilder.addEdge("categorize", "evaluate");
-graphBuilder.addEdge("evaluate", "summarize");
+graphBuilder.addEdge("evaluate", "critique");
+graphBuilder.addEdge("critique", "metrics");
+graphBuilder.addEdge("metrics", "stakeholders");
+graphBuilder.addEdge("stakeholders", "summarize");
 
 // Set the entry and finish points
 graphBuilder.setEntryPoint("extract");
 graphBuilder.setFinishPoint("summarize");
 
-// Compile the graph
-export const llmWorkflow = graphBuilder.compile();
\ No newline at end of file
+// Compile the graph with a checkpointer, so the state after every node is persisted per analysis run
+export const llmWorkflow = graphBuilder.compile({
+  checkpointer: new AnalysisCheckpointSaver(createRepositories().analysisCheckpoints),
+});
+
+export interface AnalysisRunSnapshot {
+  state: AnalysisState;
+  nextNodes: string[];
+  isComplete: boolean;
+}
+
+/**
+ * Builds the LangGraph config for an analysis run. The analysis ID is used as the thread ID.
+ */
+export function getAnalysisConfig(analysisId: string) {
+  return { configurable: { thread_id: analysisId } };
+}
+
+/**
+ * Loads the last persisted state of an analysis run.
+ * @param analysisId The analysis ID the run was started with
+ * @returns The snapshot, or null if nothing was checkpointed for this analysis
+ */
+export async function getAnalysisRun(analysisId: string): Promise<AnalysisRunSnapshot | null> {
+  const snapshot = await llmWorkflow.getState(getAnalysisConfig(analysisId));
+  if (!snapshot.values || Object.keys(snapshot.values).length === 0) {
+    return null;
+  }
+
+  return {
+    state: snapshot.values as AnalysisState,
+    nextNodes: [...snapshot.next],
+    isComplete: snapshot.next.length === 0,
+  };
+}
\ No newline at end of file
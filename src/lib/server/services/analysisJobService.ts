@@ -0,0 +1,371 @@
+/**
+ * Analysis Job Service
+ * Submits analyses as persisted jobs and runs them (workflow + storing the results).
+ * Jobs are picked up by the in-process analysis worker, see analysisWorker.ts.
+ */
+
+import { randomUUID } from 'crypto';
+import { llmWorkflow, getAnalysisRun } from '../llm/workflow';
+import { invokeWithTracing } from '../llm/langfuseIntegration';
+import { getRetryCheckpoint } from '../llm/resume';
+import { analysisProgress } from '../llm/progress';
+import { promptRegistry } from '../llm/prompts';
+import { getResultStatus } from '../llm/issues';
+import {
+	DEFAULT_MAX_IMPACT_DEPTH,
+	DEFAULT_EXPANSION_BUDGET,
+	MAX_IMPACT_DEPTH_LIMIT,
+	EXPANSION_BUDGET_LIMIT,
+	clampExpansionSetting
+} from '../llm/nodes/expandDownstreamImpacts';
+import { ANALYSIS_PROFILES } from '../llm/profiles';
+import { detectLanguage } from '../llm/language';
+import type { AnalysisState } from '../llm/types';
+import type { AnalysisJob, AnalysisLanguage, AnalysisProfileName } from '../database/schema';
+import type { Repositories } from '../database/supabase';
+import type { LLMAnalyzeRequest } from '$lib/types/api';
+
+export type AnalysisProposal = NonNullable<LLMAnalyzeRequest['proposal']> | string;
+
+const CANCELLED_MESSAGE = 'Cancelled by user';
+
+// The text the language of a proposal is detected from
+function proposalText(proposal: AnalysisProposal): string {
+	return typeof proposal === 'string' ? proposal : `${proposal.title}\n\n${proposal.text}`;
+}
+
+export class AnalysisJobService {
+	constructor(private repositories: Repositories) {}
+
+	/**
+	 * Create a queued job to analyse an idea. The job ID doubles as the analysis ID.
+	 */
+	async submit(data: {
+		userId: string;
+		ideaId: string;
+		proposal: AnalysisProposal;
+		profile?: AnalysisProfileName;
+		language?: AnalysisLanguage;
+	}): Promise<AnalysisJob> {
+		const job = await this.repositories.analysisJobs.create({
+			id: randomUUID(),
+			ideaId: data.ideaId,
+			userId: data.userId,
+			status: 'queued',
+			proposal: data.proposal,
+			profile: data.profile,
+			language: data.language
+		});
+		analysisProgress.emit(job.id, { type: 'status', status: job.status });
+		return job;
+	}
+
+	/**
+	 * Put a failed job back into the queue. When it runs again it resumes from its last checkpoint.
+	 */
+	async retry(jobId: string): Promise<AnalysisJob> {
+		const job = await this.repositories.analysisJobs.requeue(jobId);
+		analysisProgress.emit(job.id, { type: 'status', status: job.status });
+		return job;
+	}
+
+	/**
+	 * Mark a queued or running job as failed because the user cancelled it. The run can be resumed later.
+	 */
+	async cancel(jobId: string): Promise<AnalysisJob | null> {
+		return await this.fail(jobId, CANCELLED_MESSAGE);
+	}
+
+	/**
+	 * Run a queued job: invoke the workflow (or resume it from its last checkpoint) and store the results.
+	 * Never throws; failures are recorded on the job.
+	 * @param signal Aborts the workflow when the job is cancelled
+	 */
+	async process(jobId: string, signal?: AbortSignal): Promise<void> {
+		const job = await this.repositories.analysisJobs.markRunning(jobId);
+		if (!job) {
+			// Not queued anymore (already claimed, finished, cancelled or deleted)
+			return;
+		}
+
+		console.log(`Processing analysis job ${job.id} (attempt ${job.attempts})`);
+		analysisProgress.emit(job.id, { type: 'status', status: job.status });
+
+		try {
+			const result = await this.runWorkflow(job, signal);
+			if (signal?.aborted) {
+				// Cancelled while the last node was finishing, the job was already marked as failed
+				return;
+			}
+
+			// Nothing to store, keep the idea's current results
+			if (getResultStatus(result) === 'failed') {
+				const nodeErrors = (result.issues ?? []).filter((issue) => issue.severity === 'error').map((issue) => issue.message);
+				await this.fail(job.id, ['The analysis produced no results', ...nodeErrors].join('; '));
+				return;
+			}
+
+			const errors = await this.storeResults(job, result);
+
+			if (errors.length > 0) {
+				await this.fail(job.id, errors.join('; '));
+				return;
+			}
+
+			const succeeded = await this.repositories.analysisJobs.markSucceeded(job.id);
+			if (!succeeded) {
+				// Cancelled (possibly by another instance) while the results were stored, they stay unused
+				console.log(`Analysis job ${job.id} was cancelled before it could succeed`);
+				return;
+			}
+			await this.switchIdea(succeeded, result);
+			analysisProgress.emit(job.id, { type: 'status', status: 'succeeded' });
+			console.log(`Analysis job ${job.id} succeeded`);
+		} catch (error) {
+			if (signal?.aborted) {
+				console.log(`Analysis job ${job.id} was cancelled`);
+				return;
+			}
+
+			console.error(`Analysis job ${job.id} failed:`, error);
+			try {
+				await this.fail(job.id, error instanceof Error ? error.message : 'Unknown error occurred');
+			} catch (updateError) {
+				console.error(`Failed to mark analysis job ${job.id} as failed:`, updateError);
+			}
+		}
+	}
+
+	private async fail(jobId: string, errorMessage: string): Promise<AnalysisJob | null> {
+		const job = await this.repositories.analysisJobs.markFailed(jobId, errorMessage);
+		if (job) {
+			analysisProgress.emit(job.id, { type: 'status', status: 'failed', error: errorMessage });
+		}
+		return job;
+	}
+
+	private async runWorkflow(job: AnalysisJob, signal?: AbortSignal): Promise<AnalysisState> {
+		const run = await getAnalysisRun(job.id);
+
+		if (run?.isComplete) {
+			// Nodes record their errors instead of throwing, so the run finished: redo it from before the first error
+			const checkpoint = await getRetryCheckpoint(llmWorkflow, job.id);
+			if (checkpoint) {
+				console.log(`Rerunning analysis ${job.id} from before the node that failed`);
+				return await invokeWithTracing(llmWorkflow, null, job.id, signal, checkpoint.configurable?.checkpoint_id);
+			}
+			// The workflow finished without errors on a previous attempt, only storing the results failed
+			return run.state;
+		}
+
+		if (run) {
+			console.log(`Resuming analysis ${job.id} at node(s): ${run.nextNodes.join(', ')}`);
+			// Passing null as input continues from the last checkpoint of this analysis
+			return await invokeWithTracing(llmWorkflow, null, job.id, signal);
+		}
+
+		// Decide which prompt versions the run uses and record them, a resumed run keeps them (they're part of its state)
+		const promptVersions = await promptRegistry.resolveVersions(job.id);
+		// Jobs submitted without a language are written in the language of their proposal
+		const language = job.language ?? detectLanguage(proposalText(job.proposal as AnalysisProposal));
+		await this.repositories.analysisJobs.update(job.id, { promptVersions, language });
+
+		const profile = ANALYSIS_PROFILES[job.profile];
+
+		// Initialize the state with the proposal
+		const initialState = {
+			proposal: job.proposal,
+			analysisId: job.id, // Also used as the checkpointer thread ID, so the run can be resumed
+			userId: job.userId,
+			ideaId: job.ideaId,
+			profile: job.profile,
+			promptVersions,
+			language,
+			extractedStatements: [],
+			downstreamImpacts: [],
+			statementImpacts: {},
+			impactDepths: {},
+			impactParents: {},
+			expansionFrontier: [],
+			maxImpactDepth: clampExpansionSetting(profile.maxImpactDepth, DEFAULT_MAX_IMPACT_DEPTH, MAX_IMPACT_DEPTH_LIMIT),
+			expansionBudget: clampExpansionSetting(profile.expansionBudget, DEFAULT_EXPANSION_BUDGET, EXPANSION_BUDGET_LIMIT),
+			mergedImpacts: {},
+			groupedCategories: {},
+			categorizationIssues: null,
+			researchFindings: {},
+			researchPassages: {},
+			researchClaims: {},
+			evaluatedScores: {},
+			scoreUncertainty: {},
+			impactEvaluations: {},
+			critiques: {},
+			impactMetrics: {},
+			impactStakeholders: {},
+			recommendation: null,
+			finalSummary: '',
+			issues: []
+		};
+
+		// Invoke the workflow with tracing
+		return await invokeWithTracing(llmWorkflow, initialState, job.id, signal);
+	}
+
+	/**
+	 * Store the analysis results for the job's idea as a new result set. The idea is switched over to them
+	 * once the job succeeded (see switchIdea). Results of earlier analyses of the idea are kept (with their votes).
+	 * @returns A list of errors, empty if everything was stored
+	 */
+	private async storeResults(job: AnalysisJob, result: AnalysisState): Promise<string[]> {
+		const errors: string[] = [];
+		try {
+			const ideaId = job.ideaId ?? (await this.createIdeaForJob(job));
+
+			// A previous attempt may have stored part of the results before failing
+			await this.repositories.categories.deleteByAnalysisId(job.id);
+			await this.repositories.primaryStatements.deleteByAnalysisId(job.id);
+
+			// Store the extracted statements, so every impact can be traced back to the statement it came from
+			const statements = await this.repositories.primaryStatements.createBatch(
+				(result.extractedStatements || []).map((statement, index) => ({
+					ideaId,
+					analysisId: job.id,
+					statementText: statement,
+					position: index
+				}))
+			);
+			const statementIdsByImpact = new Map<string, string>();
+			for (const statement of statements) {
+				for (const impact of result.statementImpacts?.[statement.statementText] || []) {
+					statementIdsByImpact.set(impact, statement.id);
+				}
+			}
+
+			// Store categories and downstream impacts
+			if (result.groupedCategories && Object.keys(result.groupedCategories).length > 0) {
+				for (const [categoryName, impacts] of Object.entries(result.groupedCategories)) {
+					try {
+						// Create category
+						const category = await this.repositories.categories.create({
+							ideaId,
+							analysisId: job.id,
+							name: categoryName,
+							researchFindings: result.researchFindings?.[categoryName] || '',
+							critique: result.critiques?.[categoryName] ?? null,
+							evaluatedScore: categoryName in (result.evaluatedScores ?? {}) ? String(result.evaluatedScores[categoryName]) : null,
+							scoreSamples: result.scoreUncertainty?.[categoryName]?.samples ?? null,
+							scoreStandardDeviation: result.scoreUncertainty?.[categoryName]?.standardDeviation.toFixed(2) ?? null,
+							scoreLower: result.scoreUncertainty?.[categoryName]?.lower.toFixed(2) ?? null,
+							scoreUpper: result.scoreUncertainty?.[categoryName]?.upper.toFixed(2) ?? null
+						});
+
+						// Create downstream impacts for this category
+						const impactIds = new Map<string, string>();
+						if (impacts && impacts.length > 0) {
+							const impactsWithMetrics = impacts.map((impact: string) => ({
+								impact: {
+									categoryId: category.id,
+									primaryStatementId: statementIdsByImpact.get(impact) ?? null,
+									depth: result.impactDepths?.[impact] ?? 1,
+									mergedImpacts: result.mergedImpacts?.[impact] ?? [],
+									impactText: impact,
+									// Runs from before impacts were scored individually only have the category score
+									calculatedImpactScore: String(result.impactEvaluations?.[impact]?.score ?? result.evaluatedScores?.[categoryName] ?? 0),
+									scoreRationale: result.impactEvaluations?.[impact]?.rationale ?? null,
+									timeHorizon: result.impactEvaluations?.[impact]?.timeHorizon ?? null,
+									likelihood: result.impactEvaluations?.[impact]?.likelihood?.toFixed(2) ?? null
+								},
+								metrics: Object.entries(result.impactMetrics?.[impact] || {}).map(([metricName, value]) => ({
+									metricName,
+									metricValue: value.toFixed(2)
+								}))
+							}));
+
+							const createdImpacts = await this.repositories.downstreamImpacts.createBatchWithMetrics(impactsWithMetrics);
+							createdImpacts.forEach((impact) => impactIds.set(impact.impactText, impact.id));
+						}
+
+						// Create the stakeholder groups each impact affects
+						await this.repositories.stakeholders.createBatch(
+							[...impactIds].flatMap(([impact, downstreamImpactId]) =>
+								(result.impactStakeholders?.[impact] || []).map((stakeholder) => ({
+									downstreamImpactId,
+									name: stakeholder.group,
+									effect: stakeholder.effect,
+									description: stakeholder.description
+								}))
+							)
+						);
+
+						// Create the evidence of the research findings, numbered like their footnotes
+						const claims = result.researchClaims?.[categoryName] || [];
+						await this.repositories.evidence.createBatchWithImpacts(
+							claims.map((claim, index) => ({
+								evidence: {
+									categoryId: category.id,
+									claim: claim.claim,
+									sourceType: claim.sourceType,
+									sourceTitle: claim.sourceTitle,
+									sourceUrl: claim.sourceUrl ?? null,
+									excerpt: claim.excerpt,
+									confidence: claim.confidence.toFixed(2),
+									position: index + 1
+								},
+								downstreamImpactIds: claim.impacts
+									.map((impact) => impactIds.get(impact))
+									.filter((id): id is string => id !== undefined)
+							}))
+						);
+
+						console.log(`Successfully stored category "${categoryName}" with ${impacts?.length || 0} downstream impacts`);
+					} catch (error) {
+						console.error(`Error creating category "${categoryName}":`, error);
+						errors.push(`Category "${categoryName}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+					}
+				}
+			}
+
+			console.log(`Analysis stored for idea ID: ${ideaId}`);
+		} catch (dbError) {
+			console.error('Failed to store analysis results:', dbError);
+			// Insert this error at the first position:
+			errors.unshift(`Failed to store analysis results: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`);
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Make the stored results of a succeeded job the current ones of its idea.
+	 */
+	private async switchIdea(job: AnalysisJob, result: AnalysisState): Promise<void> {
+		if (!job.ideaId) {
+			return;
+		}
+		try {
+			await this.repositories.ideas.update(job.ideaId, {
+				summary: result.finalSummary || '',
+				recommendation: result.recommendation ?? null,
+				analysisStatus: getResultStatus(result),
+				analysisIssues: result.issues ?? [],
+				currentAnalysisId: job.id
+			});
+		} catch (error) {
+			// The job's results are stored, the idea keeps showing its previous ones
+			console.error(`Failed to switch idea ${job.ideaId} to the results of analysis ${job.id}:`, error);
+		}
+	}
+
+	// Jobs queued before analyses were attached to ideas have no idea yet
+	private async createIdeaForJob(job: AnalysisJob): Promise<string> {
+		const proposal = job.proposal as AnalysisProposal;
+		const idea = await this.repositories.ideas.create({
+			userId: job.userId,
+			title: typeof proposal === 'string' ? proposal : proposal.title || 'Untitled Proposal',
+			text: typeof proposal === 'string' ? proposal : proposal.text || '',
+			language: detectLanguage(proposalText(proposal)),
+			published: false
+		});
+		await this.repositories.analysisJobs.update(job.id, { ideaId: idea.id });
+		return idea.id;
+	}
+}
@@ -0,0 +1,97 @@
+/**
+ * Analysis Translation Service
+ * Translates the results of a finished analysis into another language on demand. Translations are stored,
+ * so every analysis is translated into a language only once.
+ */
+
+import { getAnalysisRun } from '../llm/workflow';
+import { translateTexts } from '../llm/translation';
+import type { AnalysisTranslationContent } from '../llm/types';
+import type { AnalysisJob, AnalysisLanguage } from '../database/schema';
+import type { Repositories } from '../database/supabase';
+
+export class AnalysisTranslationService {
+	constructor(private repositories: Repositories) {}
+
+	/**
+	 * The results of the analysis in the language, translated now if they haven't been before.
+	 */
+	async translate(job: AnalysisJob, language: AnalysisLanguage): Promise<AnalysisTranslationContent> {
+		const existing = await this.repositories.analysisTranslations.getByAnalysisId(job.id, language);
+		if (existing) {
+			return existing.content;
+		}
+
+		const content = await this.translateResults(job, language);
+		try {
+			await this.repositories.analysisTranslations.create({ analysisId: job.id, language, content });
+		} catch (error) {
+			// Another request may have stored the same translation in the meantime
+			const stored = await this.repositories.analysisTranslations.getByAnalysisId(job.id, language);
+			if (!stored) {
+				throw error;
+			}
+			return stored.content;
+		}
+		return content;
+	}
+
+	private async translateResults(job: AnalysisJob, language: AnalysisLanguage): Promise<AnalysisTranslationContent> {
+		const content: AnalysisTranslationContent = { summary: null, statements: {}, categories: {}, downstreamImpacts: {} };
+		if (!job.ideaId) {
+			return content;
+		}
+
+		const [run, statements, categories] = await Promise.all([
+			getAnalysisRun(job.id),
+			this.repositories.primaryStatements.getByIdeaId(job.ideaId, job.id),
+			this.repositories.categories.getWithDownstreamImpacts(job.ideaId, job.id)
+		]);
+
+		// All texts are translated in one go; every text's setter puts its translation into the content
+		const texts: string[] = [];
+		const setters: ((translation: string) => void)[] = [];
+		const add = (text: string | null | undefined, set: (translation: string) => void) => {
+			if (text?.trim()) {
+				texts.push(text);
+				setters.push(set);
+			}
+		};
+
+		add(run?.state.finalSummary, (translation) => (content.summary = translation));
+		for (const statement of statements) {
+			add(statement.statementText, (translation) => (content.statements[statement.id] = translation));
+		}
+		for (const category of categories) {
+			const translated = (content.categories[category.id] = {
+				name: category.name,
+				researchFindings: category.researchFindings,
+				critique: category.critique
+					? { counterArguments: [...category.critique.counterArguments], overlookedRisks: [...category.critique.overlookedRisks] }
+					: null
+			});
+			add(category.name, (translation) => (translated.name = translation));
+			add(category.researchFindings, (translation) => (translated.researchFindings = translation));
+			translated.critique?.counterArguments.forEach((argument, index) =>
+				add(argument, (translation) => (translated.critique!.counterArguments[index] = translation))
+			);
+			translated.critique?.overlookedRisks.forEach((risk, index) =>
+				add(risk, (translation) => (translated.critique!.overlookedRisks[index] = translation))
+			);
+
+			for (const impact of category.downstreamImpacts) {
+				const translatedImpact = (content.downstreamImpacts[impact.id] = {
+					impactText: impact.impactText,
+					scoreRationale: impact.scoreRationale
+				});
+				add(impact.impactText, (translation) => (translatedImpact.impactText = translation));
+				add(impact.scoreRationale, (translation) => (translatedImpact.scoreRationale = translation));
+			}
+		}
+
+		const translations = await translateTexts(texts, language, job.profile);
+		translations.forEach((translation, index) => setters[index](translation));
+
+		return content;
+	}
+}
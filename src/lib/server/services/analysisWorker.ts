@@ -0,0 +1,129 @@
+/**
+ * Analysis Worker
+ * In-process queue that runs analysis jobs in the background, so requests don't wait for the workflow.
+ */
+
+import { createRepositories, type Repositories } from '../database/supabase';
+import { AnalysisJobService } from './analysisJobService';
+
+// A running job whose worker hasn't sent a heartbeat for this long is considered interrupted
+const JOB_LEASE_MS = Number(process.env.ANALYSIS_JOB_LEASE_MS) || 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = JOB_LEASE_MS / 5;
+
+export class AnalysisWorker {
+	private queue: string[] = [];
+	private activeJobs = new Map<string, AbortController>();
+	private started = false;
+
+	constructor(
+		private jobService: AnalysisJobService,
+		private repositories: Repositories,
+		private concurrency: number = 1
+	) {}
+
+	/**
+	 * Pick up jobs that were queued or interrupted (e.g. by a server restart) before this process started,
+	 * and keep checking for interrupted jobs. Several instances can run side by side: running jobs send a
+	 * heartbeat, and only jobs whose lease expired are taken over.
+	 */
+	async start(): Promise<void> {
+		if (this.started) {
+			return;
+		}
+		this.started = true;
+
+		setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS).unref();
+		setInterval(() => this.recover(), JOB_LEASE_MS).unref();
+
+		await this.recover();
+	}
+
+	/**
+	 * Keep the leases of the running jobs, and abort the ones that were finished elsewhere in the meantime
+	 * (e.g. cancelled through another instance).
+	 */
+	private async heartbeat(): Promise<void> {
+		try {
+			const jobs = await this.repositories.analysisJobs.heartbeat([...this.activeJobs.keys()]);
+			for (const job of jobs) {
+				if (job.status === 'succeeded' || job.status === 'failed') {
+					this.activeJobs.get(job.id)?.abort();
+				}
+			}
+		} catch (error) {
+			console.error('Analysis worker failed to send the heartbeat:', error);
+		}
+	}
+
+	private async recover(): Promise<void> {
+		try {
+			const staleBefore = new Date(Date.now() - JOB_LEASE_MS);
+			const pendingJobs = await this.repositories.analysisJobs.getByStatus(['queued', 'running']);
+			let recovered = 0;
+			for (const job of pendingJobs) {
+				if (this.activeJobs.has(job.id) || this.queue.includes(job.id)) {
+					continue;
+				}
+				if (job.status === 'running') {
+					// Whoever ran it is gone if its lease expired; it resumes from its last checkpoint
+					if (job.updatedAt >= staleBefore || !(await this.repositories.analysisJobs.requeueStale(job.id, staleBefore))) {
+						continue;
+					}
+				}
+				this.enqueue(job.id);
+				recovered++;
+			}
+
+			if (recovered > 0) {
+				console.log(`Analysis worker recovered ${recovered} pending job(s)`);
+			}
+		} catch (error) {
+			console.error('Analysis worker failed to recover pending jobs:', error);
+		}
+	}
+
+	/**
+	 * Add a queued job to the worker. Returns immediately; the job runs in the background.
+	 */
+	enqueue(jobId: string): void {
+		if (this.activeJobs.has(jobId) || this.queue.includes(jobId)) {
+			return;
+		}
+
+		this.queue.push(jobId);
+		this.drain();
+	}
+
+	/**
+	 * Cancel a queued or running job. A running workflow is aborted before its next node.
+	 */
+	async cancel(jobId: string): Promise<void> {
+		this.queue = this.queue.filter((id) => id !== jobId);
+		await this.jobService.cancel(jobId);
+		this.activeJobs.get(jobId)?.abort();
+	}
+
+	private drain(): void {
+		while (this.activeJobs.size < this.concurrency && this.queue.length > 0) {
+			const jobId = this.queue.shift()!;
+			const abortController = new AbortController();
+			this.activeJobs.set(jobId, abortController);
+
+			this.jobService
+				.process(jobId, abortController.signal)
+				.catch((error) => console.error(`Analysis worker failed on job ${jobId}:`, error))
+				.finally(() => {
+					this.activeJobs.delete(jobId);
+					this.drain();
+				});
+		}
+	}
+}
+
+const repositories = createRepositories();
+
+export const analysisWorker = new AnalysisWorker(
+	new AnalysisJobService(repositories),
+	repositories,
+	Number(process.env.ANALYSIS_WORKER_CONCURRENCY) || 1
+);
@@ -0,0 +1,93 @@
+/**
+ * Document Service
+ * Stores the supporting documents of ideas and prepares them for the analysis: the text is extracted,
+ * split into chunks and stored, so the analysis can search it for the passages relevant to every step.
+ */
+
+import { randomUUID } from 'crypto';
+import { fileStorage, type FileStorage } from '../documents/storage';
+import { extractText, getDocumentFormat, MAX_DOCUMENT_SIZE } from '../documents/textExtraction';
+import { splitIntoPassages } from '../llm/research/passages';
+import type { IdeaDocument } from '../database/schema';
+import type { Repositories } from '../database/supabase';
+
+// Only letters, digits, dots, dashes and underscores in storage paths
+function toStorageName(filename: string): string {
+	return filename.replace(/[^\w.-]+/g, '_').slice(-100) || 'document';
+}
+
+export class DocumentService {
+	constructor(
+		private repositories: Repositories,
+		private storage: FileStorage = fileStorage
+	) {}
+
+	/**
+	 * Store an uploaded document of an idea and process it.
+	 * @returns The document, not processed if its text couldn't be extracted
+	 */
+	async upload(ideaId: string, file: File): Promise<IdeaDocument> {
+		const format = getDocumentFormat(file.name, file.type);
+		if (!format) {
+			throw new Error(`Unsupported document format: ${file.name}`);
+		}
+		if (file.size > MAX_DOCUMENT_SIZE) {
+			throw new Error(`Document ${file.name} exceeds the maximum size of 10MB`);
+		}
+
+		const id = randomUUID();
+		const filePath = `${ideaId}/${id}-${toStorageName(file.name)}`;
+		await this.storage.save(filePath, new Uint8Array(await file.arrayBuffer()), file.type || 'application/octet-stream');
+
+		const document = await this.repositories.documents.create({
+			id,
+			ideaId,
+			filename: file.name,
+			filePath,
+			fileType: file.type || format,
+			fileSize: file.size
+		});
+
+		try {
+			return await this.process(document);
+		} catch (error) {
+			// The document is kept, it can be processed again later
+			console.error(`Processing document ${document.id} (${document.filename}) failed:`, error);
+			return document;
+		}
+	}
+
+	/**
+	 * Extract the text of a stored document, split it into chunks and mark the document as processed.
+	 * A document without text stays unprocessed, so it is shown as not used in the analysis.
+	 * Processing a document again replaces its chunks.
+	 */
+	async process(document: IdeaDocument): Promise<IdeaDocument> {
+		const format = getDocumentFormat(document.filename, document.fileType);
+		if (!format) {
+			throw new Error(`Unsupported document format: ${document.filename}`);
+		}
+
+		const text = await extractText(await this.storage.read(document.filePath), format);
+		const passages = splitIntoPassages(text);
+
+		await this.repositories.documentChunks.deleteByDocumentId(document.id);
+		if (passages.length === 0) {
+			// E.g. a scanned PDF without a text layer
+			console.warn(`No text could be extracted from document ${document.id} (${document.filename})`);
+			return document;
+		}
+
+		await this.repositories.documentChunks.createBatch(
+			passages.map(({ heading, text: content }, position) => ({
+				documentId: document.id,
+				position,
+				heading,
+				content
+			}))
+		);
+
+		console.log(`Processed document ${document.id} (${document.filename}) into ${passages.length} chunks`);
+		return await this.repositories.documents.markAsProcessed(document.id);
+	}
+}
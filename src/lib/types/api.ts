@@ -1,4 +1,5 @@
-import type { AnalysisState } from "$lib/server/llm/types";
+import type { AnalysisState, AnalysisTranslationContent } from "$lib/server/llm/types";
+import type { AnalysisJobStatus, AnalysisLanguage, AnalysisProfileName, AnalysisResultStatus } from "$lib/server/database/schema";
 
 // API Response wrapper for consistent error handling
 export interface APIResponse<T = any> {
@@ -10,16 +11,51 @@ export interface APIResponse<T = any> {
 
 // LLM Analysis API types
 export interface LLMAnalyzeRequest {
-	ideaId: string;
-	proposal: {
+	ideaId?: string; // Analyze (or re-analyze) this idea; a new idea is created for the proposal otherwise
+	proposal?: {
 		title: string;
 		text: string;
-	};
+	}; // Defaults to the idea's title and text
+	analysisId?: string; // Resume this (failed) analysis run from its last completed node instead of starting a new one
+	profile?: AnalysisProfileName; // How thorough (and expensive) the analysis is, 'standard' by default
+	language?: AnalysisLanguage; // Language the results are written in, by default the language of the idea
 }
 
+// The analysis runs in the background; poll GET /api/analyses/:id for its status
 export interface LLMAnalyzeResponse {
-	ideaId: string;
-	analysis: AnalysisState;
+	success: boolean;
+	analysisId: string;
+	status: AnalysisJobStatus;
+}
+
+// Analysis status API types
+export interface AnalysisStatusResponse {
+	id: string;
+	ideaId: string | null;
+	status: AnalysisJobStatus;
+	error: string | null;
+	attempts: number;
+	profile: AnalysisProfileName;
+	promptVersions: { [name: string]: string } | null; // Version of every prompt the run used, once it started
+	language: AnalysisLanguage | null; // Language the results are written in, decided when the run starts
+	createdAt: string;
+	startedAt: string | null;
+	completedAt: string | null;
+	nextNodes: string[]; // Workflow nodes still to run
+	resultStatus: AnalysisResultStatus | null; // Outcome once the workflow finished, see result.issues for what's missing
+	result: AnalysisState | null; // Results so far, complete once the status is 'succeeded'
+}
+
+// Analysis translation API types
+export interface AnalysisTranslationRequest {
+	language: AnalysisLanguage;
+}
+
+// Translations are created on the first request and reused afterwards
+export interface AnalysisTranslationResponse {
+	analysisId: string;
+	language: AnalysisLanguage;
+	content: AnalysisTranslationContent;
 }
 
 // Statement Vote API types
@@ -48,6 +84,14 @@ export interface APIEndpoints {
 		request: LLMAnalyzeRequest;
 		response: LLMAnalyzeResponse;
 	};
+	'GET /api/analyses/:id': {
+		request: never;
+		response: AnalysisStatusResponse;
+	};
+	'POST /api/analyses/:id/translations': {
+		request: AnalysisTranslationRequest;
+		response: AnalysisTranslationResponse;
+	};
 	'POST /api/statements/:id/vote': {
 		request: StatementVoteRequest;
 		response: StatementVoteResponse;
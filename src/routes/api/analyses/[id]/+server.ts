@@ -0,0 +1,48 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createRepositories } from '$lib/server/database/supabase';
+import { getAnalysisRun } from '$lib/server/llm/workflow';
+import { getResultStatus } from '$lib/server/llm/issues';
+
+export const GET: RequestHandler = async ({ params, locals }) => {
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	try {
+		const repositories = createRepositories();
+		const job = await repositories.analysisJobs.getById(params.id);
+
+		if (!job) {
+			return json({ error: 'Analysis not found' }, { status: 404 });
+		}
+
+		// Ensure users can only see their own analyses
+		if (job.userId !== locals.user.id) {
+			return json({ error: 'Forbidden' }, { status: 403 });
+		}
+
+		// The checkpointed state holds the results so far (final results once the job succeeded)
+		const run = await getAnalysisRun(job.id);
+
+		return json({
+			id: job.id,
+			ideaId: job.ideaId,
+			status: job.status,
+			error: job.errorMessage,
+			attempts: job.attempts,
+			profile: job.profile,
+			promptVersions: job.promptVersions,
+			language: job.language,
+			createdAt: job.createdAt,
+			startedAt: job.startedAt,
+			completedAt: job.completedAt,
+			nextNodes: run?.nextNodes ?? [],
+			resultStatus: run?.isComplete ? getResultStatus(run.state) : null,
+			result: run?.state ?? null
+		});
+	} catch (error) {
+		console.error('Error fetching analysis:', error);
+		return json({ error: 'Failed to fetch analysis' }, { status: 500 });
+	}
+};
@@ -0,0 +1,34 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createRepositories } from '$lib/server/database/supabase';
+import { analysisWorker } from '$lib/server/services/analysisWorker';
+
+export const POST: RequestHandler = async ({ params, locals }) => {
+	if (!locals.user) {
+		return json({ error: 'Authentication required' }, { status: 401 });
+	}
+
+	try {
+		const repositories = createRepositories();
+		const job = await repositories.analysisJobs.getById(params.id);
+
+		if (!job) {
+			return json({ error: 'Analysis not found' }, { status: 404 });
+		}
+
+		// Ensure users can only cancel their own analyses
+		if (job.userId !== locals.user.id) {
+			return json({ error: 'Forbidden' }, { status: 403 });
+		}
+
+		if (job.status !== 'queued' && job.status !== 'running') {
+			return json({ error: `Analysis is ${job.status} and cannot be cancelled` }, { status: 409 });
+		}
+
+		await analysisWorker.cancel(job.id);
+		return json({ success: true });
+	} catch (error) {
+		console.error(`Cancelling analysis ${params.id} failed:`, error);
+		return json({ error: 'Failed to cancel analysis' }, { status: 500 });
+	}
+};
@@ -0,0 +1,114 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createRepositories } from '$lib/server/database/supabase';
+import { ANALYSIS_NODES, getAnalysisRun } from '$lib/server/llm/workflow';
+import { analysisProgress, type AnalysisProgressEvent } from '$lib/server/llm/progress';
+
+// Comment lines keep proxies from closing an idle connection while a slow node runs
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream with the progress of an analysis.
+ * Starts with a `snapshot` event (job status and checkpointed state), replays the events emitted
+ * so far and then forwards live events until the analysis succeeds or fails.
+ */
+export const GET: RequestHandler = async ({ params, locals }) => {
+	if (!locals.user) {
+		return json({ error: 'Unauthorized' }, { status: 401 });
+	}
+
+	const repositories = createRepositories();
+	const job = await repositories.analysisJobs.getById(params.id);
+
+	if (!job) {
+		return json({ error: 'Analysis not found' }, { status: 404 });
+	}
+
+	// Ensure users can only follow their own analyses
+	if (job.userId !== locals.user.id) {
+		return json({ error: 'Forbidden' }, { status: 403 });
+	}
+
+	const encoder = new TextEncoder();
+	let cleanup = () => {};
+
+	const stream = new ReadableStream({
+		async start(controller) {
+			let closed = false;
+			const send = (type: string, data: unknown) => {
+				if (!closed) {
+					controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`));
+				}
+			};
+			const close = () => {
+				if (!closed) {
+					closed = true;
+					cleanup();
+					controller.close();
+				}
+			};
+			const isFinished = (event: AnalysisProgressEvent) =>
+				event.type === 'status' && (event.status === 'succeeded' || event.status === 'failed');
+
+			// Events emitted while the snapshot loads are in the history, which is replayed below
+			let live = false;
+			const unsubscribe = analysisProgress.subscribe(job.id, (event) => {
+				if (!live) return;
+				send(event.type, event);
+				if (isFinished(event)) close();
+			});
+			const keepAlive = setInterval(() => {
+				if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+			}, KEEP_ALIVE_INTERVAL_MS);
+			cleanup = () => {
+				unsubscribe();
+				clearInterval(keepAlive);
+			};
+
+			try {
+				const [currentJob, run] = await Promise.all([
+					repositories.analysisJobs.getById(job.id),
+					getAnalysisRun(job.id)
+				]);
+				const status = currentJob?.status ?? job.status;
+
+				send('snapshot', {
+					analysisId: job.id,
+					status,
+					error: currentJob?.errorMessage ?? null,
+					nodes: ANALYSIS_NODES,
+					nextNodes: run?.nextNodes ?? [],
+					state: run?.state ?? null
+				});
+
+				// The analysis may have finished while the snapshot loaded, then the final event is only in the history
+				let finished = status === 'succeeded' || status === 'failed';
+				for (const event of analysisProgress.getHistory(job.id)) {
+					send(event.type, event);
+					finished ||= isFinished(event);
+				}
+				live = true;
+
+				if (finished) {
+					close();
+				}
+			} catch (error) {
+				console.error(`Error streaming progress for analysis ${job.id}:`, error);
+				send('error', { error: 'Failed to load analysis progress' });
+				close();
+			}
+		},
+		cancel() {
+			// The browser disconnected
+			cleanup();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+};
@@ -0,0 +1,59 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { createRepositories } from '$lib/server/database/supabase';
+import { BalanceService } from '$lib/server/llm/costTracking/balanceService';
+import { isAnalysisLanguage } from '$lib/server/llm/language';
+import { AnalysisTranslationService } from '$lib/server/services/analysisTranslationService';
+
+// Translating is much cheaper than analyzing, but still calls the LLM once per ~20 texts
+const ESTIMATED_TRANSLATION_COST = 0.2;
+
+export const POST: RequestHandler = async ({ params, request, locals }) => {
+	if (!locals.user) {
+		return json({ error: 'Authentication required' }, { status: 401 });
+	}
+
+	try {
+		const { language } = await request.json();
+		if (!isAnalysisLanguage(language)) {
+			return json({ error: `Unsupported language: ${language}` }, { status: 400 });
+		}
+
+		const repositories = createRepositories();
+		const job = await repositories.analysisJobs.getById(params.id);
+
+		if (!job || !job.ideaId) {
+			return json({ error: 'Analysis not found' }, { status: 404 });
+		}
+
+		// Owners can translate any of their analyses, everyone else the current analysis of a published idea
+		if (job.userId !== locals.user.id) {
+			const idea = await repositories.ideas.getById(job.ideaId);
+			if (!idea?.published || idea.currentAnalysisId !== job.id) {
+				return json({ error: 'Forbidden' }, { status: 403 });
+			}
+		}
+
+		if (job.status !== 'succeeded') {
+			return json({ error: `Analysis is ${job.status} and cannot be translated` }, { status: 409 });
+		}
+
+		const balanceService = new BalanceService(repositories.userBalances, repositories.balanceTransactions);
+		if (!(await balanceService.hasSufficientBalance(locals.user.id, ESTIMATED_TRANSLATION_COST))) {
+			return json({
+				error: 'Insufficient balance. Please add credits to your account to continue.'
+			}, { status: 402 });
+		}
+
+		const content = await new AnalysisTranslationService(repositories).translate(job, language);
+
+		return json({
+			analysisId: job.id,
+			language,
+			content
+		});
+	} catch (error) {
+		console.error(`Translating analysis ${params.id} failed:`, error);
+		return json({ error: 'Failed to translate the analysis' }, { status: 500 });
+	}
+};
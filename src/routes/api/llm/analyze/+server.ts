@@ -1,8 +1,10 @@
 import { json, type RequestHandler } from '@sveltejs/kit';
-import { llmWorkflow } from '../../../../lib/server/llm/workflow';
-import { invokeWithTracing } from '../../../../lib/server/llm/langfuseIntegration';
 import { BalanceService } from '../../../../lib/server/llm/costTracking/balanceService';
 import { createRepositories } from '../../../../lib/server/database/supabase';
+import { AnalysisJobService } from '../../../../lib/server/services/analysisJobService';
+import { analysisWorker } from '../../../../lib/server/services/analysisWorker';
+import { isAnalysisProfileName } from '../../../../lib/server/llm/profiles';
+import { detectLanguage, isAnalysisLanguage } from '../../../../lib/server/llm/language';
 
 export const POST: RequestHandler = async ({ request, locals }) => {
   try {
@@ -11,105 +13,102 @@ export const POST: RequestHandler = async ({ request, locals }) => {
       return json({ error: 'Authentication required' }, { status: 401 });
     }
 
-    const { proposal } = await request.json();
+    const { proposal, ideaId, analysisId: resumeAnalysisId, profile, language } = await request.json();
 
     console.log(`Analyzing ${typeof proposal === 'string' ? proposal : JSON.stringify(proposal)}`)
-    
-    if (!proposal) {
+
+    if (!proposal && !ideaId && !resumeAnalysisId) {
       return json({ error: 'Proposal is required' }, { status: 400 });
     }
-    
+
+    if (profile !== undefined && !isAnalysisProfileName(profile)) {
+      return json({ error: `Unknown analysis profile: ${profile}` }, { status: 400 });
+    }
+
+    if (language !== undefined && !isAnalysisLanguage(language)) {
+      return json({ error: `Unsupported language: ${language}` }, { status: 400 });
+    }
+
     // Create repositories and balance service
     const repositories = createRepositories();
     const balanceService = new BalanceService(repositories.userBalances, repositories.balanceTransactions);
-    
+    const jobService = new AnalysisJobService(repositories);
+
     // Check user balance (using a slightly higher estimated cost for now, to be on the safe side)
     // In a real implementation, this would be a more accurate estimate
     const estimatedCost = 1.0;
     const hasSufficientBalance = await balanceService.hasSufficientBalance(locals.user.id, estimatedCost);
-    
+
     if (!hasSufficientBalance) {
       return json({
         error: 'Insufficient balance. Please add credits to your account to continue.'
       }, { status: 402 });
     }
-    
-    // Initialize the state with the proposal
-    const initialState = {
-      proposal,
-      analysisId: "analysis-" + Date.now(), // Generate a unique analysis ID
-      userId: locals.user.id, // Use the authenticated user ID
-      extractedStatements: [],
-      downstreamImpacts: [],
-      groupedCategories: {},
-      researchFindings: {},
-      evaluatedScores: {},
-      finalSummary: ''
-    };
-    
-    // Invoke the workflow with tracing
-    const result = await invokeWithTracing(llmWorkflow, initialState);
-    
-    // Store results in database
-    const errors = [];
-    try {
-      // First, create an idea record for this proposal
-      const proposalTitle = typeof proposal === 'string' ? proposal : proposal.title || 'Untitled Proposal';
-      const proposalText = typeof proposal === 'string' ? proposal : proposal.text || proposal.description || '';
-      const newIdea = await repositories.ideas.create({
+
+    let job;
+    if (resumeAnalysisId) {
+      // Re-queue a failed analysis; the worker resumes it from its last completed node
+      const existingJob = await repositories.analysisJobs.getById(resumeAnalysisId);
+      if (!existingJob || existingJob.userId !== locals.user.id) {
+        return json({ error: 'Analysis not found' }, { status: 404 });
+      }
+      if (existingJob.status !== 'failed') {
+        return json({ error: `Analysis is ${existingJob.status} and cannot be resumed` }, { status: 409 });
+      }
+
+      job = await jobService.retry(existingJob.id);
+    } else if (ideaId) {
+      // (Re-)analyze an existing idea; the new results become its current ones once the analysis succeeded
+      const idea = await repositories.ideas.getById(ideaId);
+      if (!idea) {
+        return json({ error: 'Idea not found' }, { status: 404 });
+      }
+      if (idea.userId !== locals.user.id) {
+        return json({ error: 'Forbidden' }, { status: 403 });
+      }
+
+      const ideaJobs = await repositories.analysisJobs.getByIdeaId(idea.id);
+      if (ideaJobs.some((ideaJob) => ideaJob.status === 'queued' || ideaJob.status === 'running')) {
+        return json({ error: 'An analysis of this idea is already in progress' }, { status: 409 });
+      }
+
+      job = await jobService.submit({
+        userId: locals.user.id,
+        ideaId: idea.id,
+        proposal: proposal ?? { title: idea.title, text: idea.text },
+        profile,
+        // Written in the idea's language unless another one was selected
+        language: language ?? idea.language
+      });
+    } else {
+      // No idea yet, create one for the proposal
+      const title = typeof proposal === 'string' ? proposal : proposal.title || 'Untitled Proposal';
+      const text = typeof proposal === 'string' ? proposal : proposal.text || '';
+      const idea = await repositories.ideas.create({
         userId: locals.user.id,
-        title: proposalTitle,
-        text: proposalText,
-        summary: result.finalSummary || '',
+        title,
+        text,
+        language: detectLanguage(`${title}\n\n${text}`),
         published: false
       });
 
-      // Store categories and downstream impacts
-      if (result.groupedCategories && Object.keys(result.groupedCategories).length > 0) {
-        for (const [categoryName, impacts] of Object.entries(result.groupedCategories)) {
-          try {
-            // Create category
-            const category = await repositories.categories.create({
-              ideaId: newIdea.id,
-              name: categoryName,
-              researchFindings: result.researchFindings?.[categoryName] || '',
-              evaluatedScore: result.evaluatedScores?.[categoryName] || 0.5
-            });
-
-            // Create downstream impacts for this category
-            const impactArray = impacts as string[];
-            if (impactArray && impactArray.length > 0) {
-              const impactsWithMetrics = impactArray.map((impact: string) => ({
-                impact: {
-                  categoryId: category.id,
-                  impactText: impact,
-                  calculatedImpactScore: result.evaluatedScores?.[categoryName] || 0.5
-                },
-                metrics: [] // Could add metrics here if needed
-              }));
-
-              await repositories.downstreamImpacts.createBatchWithMetrics(impactsWithMetrics);
-            }
-
-            console.log(`Successfully stored category "${categoryName}" with ${impactArray?.length || 0} downstream impacts`);
-          } catch (error) {
-            console.error(`Error creating category "${categoryName}":`, error);
-            errors.push(`Category "${categoryName}": ${error instanceof Error ? error.message : 'Unknown error'}`);
-          }
-        }
-      }
-
-      console.log(`Analysis stored for idea ID: ${newIdea.id}`);
-    } catch (dbError) {
-      console.error('Failed to store analysis results:', dbError);
-      // Insert this error at the first position:
-      errors.unshift(`Failed to store analysis results: ${dbError instanceof Error ? dbError.message : 'Unknown error'}`);
+      job = await jobService.submit({
+        userId: locals.user.id,
+        ideaId: idea.id,
+        proposal,
+        profile,
+        language: language ?? idea.language
+      });
     }
 
+    // Run the analysis in the background; progress is available via GET /api/analyses/:id
+    analysisWorker.enqueue(job.id);
+
     return json({
-      success: errors.length === 0,
-      analysis: result
-    });
+      success: true,
+      analysisId: job.id,
+      status: job.status
+    }, { status: 202 });
   } catch (error) {
     console.error('Error in LLM analysis:', error);
     return json({
@@ -117,4 +116,4 @@ export const POST: RequestHandler = async ({ request, locals }) => {
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     }, { status: 500 });
   }
-};
\ No newline at end of file
+};
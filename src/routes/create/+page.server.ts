@@ -1,6 +1,9 @@
-import { fail, redirect } from '@sveltejs/kit';
+import { fail, redirect, isRedirect } from '@sveltejs/kit';
 import type { Actions, PageServerLoad } from './$types';
 import { createRepositories } from '$lib/server/database/supabase';
+import { detectLanguage, isAnalysisLanguage } from '$lib/server/llm/language';
+import { DocumentService } from '$lib/server/services/documentService';
+import { getDocumentFormat, MAX_DOCUMENT_SIZE } from '$lib/server/documents/textExtraction';
 
 export const load: PageServerLoad = async ({ url, locals: { session } }) => {
 	if (!session?.user) {
@@ -23,7 +26,11 @@ export const actions: Actions = {
 			const formData = await request.formData();
 			const title = formData.get('title') as string;
 			const ideaText = formData.get('idea') as string;
-			const files = formData.getAll('documents') as File[];
+			// Browsers send an empty file for a file input without a selection
+			const files = (formData.getAll('documents') as File[]).filter((file) => file.size > 0);
+			const profile = (formData.get('profile') as string) || undefined;
+			// Empty: the analysis is written in the language of the idea
+			const language = (formData.get('language') as string) || undefined;
 
 			// Validation
 			if (!title?.trim() || !ideaText?.trim()) {
@@ -34,9 +41,20 @@ export const actions: Actions = {
 				return fail(400, { error: 'Idea text exceeds maximum length of 64,000 characters' });
 			}
 
-			const repositories = createRepositories();
+			if (language !== undefined && !isAnalysisLanguage(language)) {
+				return fail(400, { error: `Unsupported language: ${language}` });
+			}
+
+			for (const file of files) {
+				if (!getDocumentFormat(file.name, file.type)) {
+					return fail(400, { error: `Unsupported document format: ${file.name} (PDF, DOCX, TXT and MD are supported)` });
+				}
+				if (file.size > MAX_DOCUMENT_SIZE) {
+					return fail(400, { error: `Document ${file.name} exceeds the maximum size of 10MB` });
+				}
+			}
 
-			// Todo: Handle files/documents
+			const repositories = createRepositories();
 
 			// Create the idea
 			console.log(`Idea to be added to user: ${locals.user.id}`);
@@ -44,12 +62,24 @@ export const actions: Actions = {
 				userId: locals.user.id,
 				title: title.trim(),
 				text: ideaText.trim(),
+				language: detectLanguage(`${title}\n\n${ideaText}`),
 				published: false
 			});
 
 			console.log(`Created idea with ID: ${idea.id}`);
 
-			// Trigger AI analysis
+			// Store and process the documents before the analysis is queued, so it can use them
+			const documentService = new DocumentService(repositories);
+			for (const file of files) {
+				try {
+					await documentService.upload(idea.id, file);
+				} catch (error) {
+					console.error(`Failed to store document ${file.name}:`, error);
+					// Don't fail the entire request if a document can't be stored
+				}
+			}
+
+			// Queue the AI analysis; it runs in the background while the user is on the idea page
 			try {
 				const analysisResponse = await fetch('/api/llm/analyze', {
 					method: 'POST',
@@ -57,15 +87,22 @@ export const actions: Actions = {
 						'Content-Type': 'application/json',
 					},
 					body: JSON.stringify({
+						ideaId: idea.id,
 						proposal: {
 							title: title.trim(),
 							text: ideaText.trim()
-						}
+						},
+						profile,
+						language
 					}),
 				});
 
 				const analysis = await analysisResponse.json();
-				console.log(`Created analysis: ${JSON.stringify(analysis)}`);
+				if (!analysisResponse.ok) {
+					console.error(`Failed to queue analysis: ${analysis.error}`);
+				} else {
+					console.log(`Queued analysis ${analysis.analysisId} for idea ${idea.id}`);
+				}
 			} catch (error) {
 				console.error('Failed to trigger AI analysis:', error);
 				// Don't fail the entire request if AI analysis fails
@@ -74,6 +111,10 @@ export const actions: Actions = {
 			// Redirect to the idea view page
 			redirect(303, `/ideas/${idea.id}`);
 		} catch (error) {
+			// redirect() throws, don't turn it into a failure
+			if (isRedirect(error)) {
+				throw error;
+			}
 			console.error('Failed to create idea:', error);
 			return fail(500, { error: 'Failed to create idea. Please try again.' });
 		}
@@ -0,0 +1,47 @@
+-- Persist LangGraph checkpoints per analysis run, so failed runs can be resumed
+CREATE TABLE IF NOT EXISTS analysis_checkpoints (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  analysis_id UUID NOT NULL,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  parent_checkpoint_id TEXT,
+  serialization_type TEXT NOT NULL,
+  checkpoint TEXT NOT NULL, -- Serialized checkpoint, including the AnalysisState after the node ran
+  metadata TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(analysis_id, checkpoint_ns, checkpoint_id)
+);
+
+-- Intermediate writes of nodes that have not completed a full step yet
+CREATE TABLE IF NOT EXISTS analysis_checkpoint_writes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  analysis_id UUID NOT NULL,
+  checkpoint_ns TEXT NOT NULL DEFAULT '',
+  checkpoint_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  idx INTEGER NOT NULL,
+  channel TEXT NOT NULL,
+  serialization_type TEXT NOT NULL,
+  value TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(analysis_id, checkpoint_ns, checkpoint_id, task_id, idx)
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_analysis_checkpoints_analysis_id ON analysis_checkpoints(analysis_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_checkpoint_writes_analysis_id ON analysis_checkpoint_writes(analysis_id);
+
+-- Enable Row Level Security
+ALTER TABLE analysis_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_checkpoint_writes ENABLE ROW LEVEL SECURITY;
+
+-- Checkpoints are internal workflow state: only the service role may access them
+CREATE POLICY "Service role can manage analysis checkpoints" ON analysis_checkpoints
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can manage analysis checkpoint writes" ON analysis_checkpoint_writes
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON analysis_checkpoints TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON analysis_checkpoint_writes TO service_role;
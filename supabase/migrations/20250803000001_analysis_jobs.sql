@@ -0,0 +1,37 @@
+-- Analysis jobs: analyses run in the background by the in-process worker
+-- The job ID is also the analysis ID (thread ID of the analysis checkpoints)
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  idea_id UUID REFERENCES ideas(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued',
+  proposal JSONB NOT NULL,
+  error_message TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add constraints
+ALTER TABLE analysis_jobs ADD CONSTRAINT analysis_job_status_check
+  CHECK (status IN ('queued', 'running', 'succeeded', 'failed'));
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_idea_id ON analysis_jobs(idea_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON analysis_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status);
+
+-- Enable Row Level Security
+ALTER TABLE analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for analysis_jobs table
+CREATE POLICY "Users can view own analysis jobs" ON analysis_jobs
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Service role can manage analysis jobs" ON analysis_jobs
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON analysis_jobs TO service_role;
@@ -0,0 +1,10 @@
+-- Analysis result sets: every analysis of an idea stores its own categories,
+-- the idea points at the result set that is shown
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS analysis_id UUID REFERENCES analysis_jobs(id) ON DELETE SET NULL;
+
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS current_analysis_id UUID REFERENCES analysis_jobs(id) ON DELETE SET NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_categories_analysis_id ON categories(analysis_id);
@@ -0,0 +1,39 @@
+-- Primary statements: the statements extracted from an idea's proposal.
+-- Downstream impacts reference the statement they were generated from,
+-- so the lineage proposal -> statement -> impact -> category is kept
+CREATE TABLE IF NOT EXISTS primary_statements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  idea_id UUID NOT NULL REFERENCES ideas(id) ON DELETE CASCADE,
+  analysis_id UUID REFERENCES analysis_jobs(id) ON DELETE SET NULL,
+  statement_text TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE downstream_impacts
+  ADD COLUMN IF NOT EXISTS primary_statement_id UUID REFERENCES primary_statements(id) ON DELETE SET NULL;
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_primary_statements_idea_id ON primary_statements(idea_id);
+CREATE INDEX IF NOT EXISTS idx_primary_statements_analysis_id ON primary_statements(analysis_id);
+CREATE INDEX IF NOT EXISTS idx_downstream_impacts_primary_statement_id ON downstream_impacts(primary_statement_id);
+
+-- Enable Row Level Security
+ALTER TABLE primary_statements ENABLE ROW LEVEL SECURITY;
+
+-- Same access as categories: public read access, writes by the service role only
+CREATE POLICY "Anyone can view primary statements" ON primary_statements
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can insert primary statements" ON primary_statements
+  FOR INSERT WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can update primary statements" ON primary_statements
+  FOR UPDATE USING (auth.role() = 'service_role');
+
+CREATE POLICY "Service role can delete primary statements" ON primary_statements
+  FOR DELETE USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT ON primary_statements TO anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON primary_statements TO service_role;
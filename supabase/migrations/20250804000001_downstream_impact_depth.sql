@@ -0,0 +1,7 @@
+-- Order of a downstream impact: 1 for direct consequences of a statement,
+-- 2 and up for the ripple effects found by expanding impacts further
+ALTER TABLE downstream_impacts
+  ADD COLUMN IF NOT EXISTS depth INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE downstream_impacts ADD CONSTRAINT downstream_impact_depth_check
+  CHECK (depth >= 1);
@@ -0,0 +1,52 @@
+-- Evidence: the discrete claims of a category's research findings, each with
+-- its source, a quoted excerpt and a confidence. Rendered as footnotes.
+CREATE TABLE IF NOT EXISTS evidence (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  category_id UUID NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+  claim TEXT NOT NULL,
+  source_type TEXT NOT NULL,
+  source_title TEXT NOT NULL,
+  source_url TEXT,
+  excerpt TEXT NOT NULL,
+  confidence NUMERIC(3,2) NOT NULL,
+  position INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The downstream impacts a piece of evidence supports
+CREATE TABLE IF NOT EXISTS evidence_impacts (
+  evidence_id UUID NOT NULL REFERENCES evidence(id) ON DELETE CASCADE,
+  downstream_impact_id UUID NOT NULL REFERENCES downstream_impacts(id) ON DELETE CASCADE,
+  PRIMARY KEY (evidence_id, downstream_impact_id)
+);
+
+-- Add constraints
+ALTER TABLE evidence ADD CONSTRAINT evidence_source_type_check
+  CHECK (source_type IN ('document', 'url', 'dataset'));
+ALTER TABLE evidence ADD CONSTRAINT evidence_confidence_bounds
+  CHECK (confidence >= 0 AND confidence <= 1);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_evidence_category_id ON evidence(category_id);
+CREATE INDEX IF NOT EXISTS idx_evidence_impacts_downstream_impact_id ON evidence_impacts(downstream_impact_id);
+
+-- Enable Row Level Security
+ALTER TABLE evidence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE evidence_impacts ENABLE ROW LEVEL SECURITY;
+
+-- Same access as categories: public read access, writes by the service role only
+CREATE POLICY "Anyone can view evidence" ON evidence
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage evidence" ON evidence
+  FOR ALL USING (auth.role() = 'service_role');
+
+CREATE POLICY "Anyone can view evidence impacts" ON evidence_impacts
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage evidence impacts" ON evidence_impacts
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT ON evidence, evidence_impacts TO anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON evidence, evidence_impacts TO service_role;
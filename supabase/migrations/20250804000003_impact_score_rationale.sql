@@ -0,0 +1,4 @@
+-- Downstream impacts are scored individually by the evaluation step;
+-- the category score is the mean of the scores of its impacts
+ALTER TABLE downstream_impacts
+  ADD COLUMN IF NOT EXISTS score_rationale TEXT;
@@ -0,0 +1,4 @@
+-- Verdict of the 10x rule (proceed, positive and negative totals, threshold, margin),
+-- computed from the category scores of the idea's current analysis
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS recommendation JSONB;
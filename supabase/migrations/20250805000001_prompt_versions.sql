@@ -0,0 +1,25 @@
+-- Versions of the workflow prompts stored in the database, in addition to the
+-- versions built into the code and the ones in the prompt directory
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  version TEXT NOT NULL,
+  template TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (name, version)
+);
+
+-- The version of every prompt an analysis run used (prompt name -> version)
+ALTER TABLE analysis_jobs
+  ADD COLUMN IF NOT EXISTS prompt_versions JSONB;
+
+-- Enable Row Level Security
+ALTER TABLE prompt_versions ENABLE ROW LEVEL SECURITY;
+
+-- Prompts are only used by the server
+CREATE POLICY "Service role can manage prompt versions" ON prompt_versions
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON prompt_versions TO service_role;
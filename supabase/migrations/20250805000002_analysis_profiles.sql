@@ -0,0 +1,7 @@
+-- How thorough (and expensive) an analysis run is: the models of every
+-- workflow step and how deep impacts are expanded (see llm/profiles.ts)
+ALTER TABLE analysis_jobs
+  ADD COLUMN IF NOT EXISTS profile TEXT NOT NULL DEFAULT 'standard';
+
+ALTER TABLE analysis_jobs ADD CONSTRAINT analysis_job_profile_check
+  CHECK (profile IN ('quick', 'standard', 'deep'));
@@ -0,0 +1,4 @@
+-- Near-duplicate downstream impacts (e.g. generated from different statements)
+-- are merged into one; the merged impacts are kept for provenance
+ALTER TABLE downstream_impacts
+  ADD COLUMN IF NOT EXISTS merged_impacts JSONB NOT NULL DEFAULT '[]'::jsonb;
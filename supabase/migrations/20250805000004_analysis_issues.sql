@@ -0,0 +1,8 @@
+-- Outcome of an idea's current analysis (complete, or partial when parts of it
+-- are missing) and the problems the workflow nodes ran into
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS analysis_status TEXT,
+  ADD COLUMN IF NOT EXISTS analysis_issues JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE ideas ADD CONSTRAINT idea_analysis_status_check
+  CHECK (analysis_status IN ('complete', 'partial', 'failed'));
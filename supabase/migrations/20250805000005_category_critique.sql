@@ -0,0 +1,4 @@
+-- Red-team review of every category score: the strongest counter-arguments
+-- and the risks the evaluation overlooked ({ counterArguments, overlookedRisks })
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS critique JSONB;
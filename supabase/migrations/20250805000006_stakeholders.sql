@@ -0,0 +1,32 @@
+-- Stakeholders: the groups a downstream impact affects (e.g. rural commuters,
+-- rail workers, the municipal budget) and the direction of the effect on them
+CREATE TABLE IF NOT EXISTS stakeholders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  downstream_impact_id UUID NOT NULL REFERENCES downstream_impacts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  effect TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add constraints
+ALTER TABLE stakeholders ADD CONSTRAINT stakeholder_effect_check
+  CHECK (effect IN ('positive', 'negative', 'mixed'));
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_stakeholders_downstream_impact_id ON stakeholders(downstream_impact_id);
+CREATE INDEX IF NOT EXISTS idx_stakeholders_name ON stakeholders(name);
+
+-- Enable Row Level Security
+ALTER TABLE stakeholders ENABLE ROW LEVEL SECURITY;
+
+-- Same access as the downstream impacts: public read access, writes by the service role only
+CREATE POLICY "Anyone can view stakeholders" ON stakeholders
+  FOR SELECT USING (true);
+
+CREATE POLICY "Service role can manage stakeholders" ON stakeholders
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT ON stakeholders TO anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON stakeholders TO service_role;
@@ -0,0 +1,10 @@
+-- The evaluation estimates when each downstream impact would materialize and how
+-- likely it is, so speculative long-term effects can be weighted and sorted
+ALTER TABLE downstream_impacts
+  ADD COLUMN IF NOT EXISTS time_horizon TEXT,
+  ADD COLUMN IF NOT EXISTS likelihood NUMERIC(3,2);
+
+ALTER TABLE downstream_impacts ADD CONSTRAINT downstream_impact_time_horizon_check
+  CHECK (time_horizon IN ('short', 'medium', 'long'));
+ALTER TABLE downstream_impacts ADD CONSTRAINT downstream_impact_likelihood_bounds
+  CHECK (likelihood >= 0 AND likelihood <= 1);
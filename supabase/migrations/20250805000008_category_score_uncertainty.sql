@@ -0,0 +1,7 @@
+-- Categories can be evaluated several times independently (different samples
+-- and/or models); evaluated_score is their mean and these columns their spread
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS score_samples INTEGER,
+  ADD COLUMN IF NOT EXISTS score_standard_deviation NUMERIC(3,2),
+  ADD COLUMN IF NOT EXISTS score_lower NUMERIC(3,2),
+  ADD COLUMN IF NOT EXISTS score_upper NUMERIC(3,2);
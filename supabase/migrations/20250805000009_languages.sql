@@ -0,0 +1,38 @@
+-- Proposals can be written in English, German, Spanish or French. The idea keeps
+-- the detected language of its proposal, every analysis the language its results
+-- are written in (the idea's language unless another one was selected)
+ALTER TABLE ideas
+  ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE analysis_jobs
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+-- Add constraints
+ALTER TABLE ideas ADD CONSTRAINT idea_language_check
+  CHECK (language IN ('en', 'de', 'es', 'fr'));
+
+ALTER TABLE analysis_jobs ADD CONSTRAINT analysis_job_language_check
+  CHECK (language IN ('en', 'de', 'es', 'fr'));
+
+-- Translations of the results of an analysis, created on demand
+CREATE TABLE IF NOT EXISTS analysis_translations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  analysis_id UUID NOT NULL REFERENCES analysis_jobs(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  content JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (analysis_id, language)
+);
+
+ALTER TABLE analysis_translations ADD CONSTRAINT analysis_translation_language_check
+  CHECK (language IN ('en', 'de', 'es', 'fr'));
+
+-- Enable Row Level Security
+ALTER TABLE analysis_translations ENABLE ROW LEVEL SECURITY;
+
+-- Translations are served by the API
+CREATE POLICY "Service role can manage analysis translations" ON analysis_translations
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON analysis_translations TO service_role;
@@ -0,0 +1,23 @@
+-- The text extracted from the supporting documents of an idea, split into
+-- passages the analysis searches for the parts relevant to every step
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  document_id UUID NOT NULL REFERENCES idea_documents(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  heading TEXT,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id ON document_chunks(document_id);
+
+-- Enable Row Level Security
+ALTER TABLE document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chunks are only used by the server
+CREATE POLICY "Service role can manage document chunks" ON document_chunks
+  FOR ALL USING (auth.role() = 'service_role');
+
+-- Grant permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON document_chunks TO service_role;